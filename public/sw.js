@@ -0,0 +1,176 @@
+// Service worker caching the app shell so that the clock can be reloaded
+// without a network connection. Vite adds content hashes to the asset names,
+// so the assets are cached first and the page itself network first.
+
+const CACHE_NAME = "kello-v1";
+
+// Files outside the Vite build that the page needs
+const STATIC_FILES = ["/", "/manifest.webmanifest", "/icon.svg"];
+
+// Hashed script and style names in the built index.html
+function getPageAssets(html) {
+    return [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(
+        (match) => match[1],
+    );
+}
+
+async function getShellAssets() {
+    const response = await fetch("/", { cache: "no-store" });
+    return [...STATIC_FILES, ...getPageAssets(await response.text())];
+}
+
+// This file stays the same between deploys, so install doesn't run again.
+// Each fetched page brings its own assets into the cache and drops the ones
+// of earlier deploys.
+async function updateAssets(cache, page) {
+    const current = getPageAssets(await page.text()).map(
+        (path) => new URL(path, self.location.origin).href,
+    );
+
+    const cached = [];
+    for (const request of await cache.keys()) {
+        const url = new URL(request.url);
+        if (!url.pathname.startsWith("/assets/")) continue;
+        if (current.includes(url.href)) {
+            cached.push(url.href);
+        } else {
+            await cache.delete(request);
+        }
+    }
+    await cache.addAll(current.filter((href) => !cached.includes(href)));
+}
+
+self.addEventListener("install", (event) => {
+    event.waitUntil(
+        (async () => {
+            const cache = await caches.open(CACHE_NAME);
+            await cache.addAll(await getShellAssets());
+            await self.skipWaiting();
+        })(),
+    );
+});
+
+self.addEventListener("activate", (event) => {
+    event.waitUntil(
+        (async () => {
+            const names = await caches.keys();
+            await Promise.all(
+                names
+                    .filter((name) => name !== CACHE_NAME)
+                    .map((name) => caches.delete(name)),
+            );
+            await self.clients.claim();
+        })(),
+    );
+});
+
+async function networkFirst(event) {
+    const { request } = event;
+    const cache = await caches.open(CACHE_NAME);
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            // All navigations load the same page, the settings are in the
+            // query string
+            await cache.put("/", response.clone());
+            event.waitUntil(
+                updateAssets(cache, response.clone()).catch((error) =>
+                    console.warn("Updating cached assets failed:", error),
+                ),
+            );
+        }
+        return response;
+    } catch (error) {
+        const cached = await cache.match("/");
+        if (cached) return cached;
+        throw error;
+    }
+}
+
+async function cacheFirst(request) {
+    const cache = await caches.open(CACHE_NAME);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    if (response.ok) {
+        await cache.put(request, response.clone());
+    }
+    return response;
+}
+
+self.addEventListener("fetch", (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+
+    if (request.method !== "GET" || url.origin !== self.location.origin) {
+        return;
+    }
+
+    if (request.mode === "navigate") {
+        event.respondWith(networkFirst(event));
+    } else {
+        event.respondWith(cacheFirst(request));
+    }
+});
+
+// Alarm notifications scheduled by the page with Notification Triggers, where
+// the browser supports them
+async function scheduleAlarmNotifications(alarms) {
+    if (!("showTrigger" in Notification.prototype)) return;
+
+    // Replace the earlier schedule but leave ringing alarms alone
+    const scheduled = await self.registration.getNotifications({
+        includeTriggered: true,
+    });
+    for (const notification of scheduled) {
+        if (
+            notification.tag.startsWith("alarm-") &&
+            notification.timestamp > Date.now()
+        ) {
+            notification.close();
+        }
+    }
+
+    for (const alarm of alarms) {
+        await self.registration.showNotification(alarm.title, {
+            ...alarm.options,
+            timestamp: alarm.at,
+            showTrigger: new TimestampTrigger(alarm.at),
+        });
+    }
+}
+
+self.addEventListener("message", (event) => {
+    if (event.data?.type === "schedule-alarms") {
+        event.waitUntil(scheduleAlarmNotifications(event.data.alarms));
+    }
+});
+
+// Pass Snooze/Stop to an open page, or open the page with the action
+self.addEventListener("notificationclick", (event) => {
+    const { alarmId, url } = event.notification.data ?? {};
+    event.notification.close();
+    if (!alarmId) return;
+
+    const action = event.action || "open";
+
+    event.waitUntil(
+        (async () => {
+            const windows = await self.clients.matchAll({
+                type: "window",
+                includeUncontrolled: true,
+            });
+            const client = windows[0];
+            if (client) {
+                client.postMessage({ type: "alarm-action", action, alarmId });
+                await client.focus();
+                return;
+            }
+
+            const target = new URL(url || "/", self.location.origin);
+            target.hash = `alarm-action=${action}:${alarmId}`;
+            await self.clients.openWindow(target.href);
+        })(),
+    );
+});
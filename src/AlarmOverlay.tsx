@@ -0,0 +1,97 @@
+import {
+    Alarm,
+    triggeredAlarm,
+    snoozeState,
+    canSnooze,
+    snoozeAlarm,
+    dismissAlarm,
+    requestDismiss,
+    dismissChallengeOpen,
+    formatAlarmTime,
+    alarmLateMinutes,
+} from "./alarm";
+import { DismissChallenge } from "./challenges";
+
+interface AlarmOverlayContentProps {
+    alarm: Alarm;
+}
+
+function AlarmOverlayContent({ alarm }: AlarmOverlayContentProps) {
+    const challengeActive = dismissChallengeOpen.value;
+
+    const snooze = snoozeState.value;
+    const snoozesUsed = snooze?.alarmId === alarm.id ? snooze.count : 0;
+
+    // The clock challenge is solved on the analog face, so let pointer
+    // events through to it
+    const passThrough = challengeActive && alarm.challenge === "clock";
+
+    return (
+        <div
+            class={`fixed inset-0 flex flex-col items-center justify-end gap-4 p-6 pb-12 ${
+                passThrough ? "pointer-events-none" : ""
+            }`}
+            style={{ zIndex: 2000 }}
+        >
+            <div class="pointer-events-auto bg-black bg-opacity-70 text-white rounded-2xl px-6 py-4 text-center shadow-lg flex flex-col items-center gap-3">
+                <div>
+                    <div class="text-2xl font-bold">⏰ {alarm.label}</div>
+                    <div class="font-mono text-lg">
+                        {formatAlarmTime(alarm)}
+                    </div>
+                    {alarmLateMinutes.value > 0 && (
+                        <div class="text-sm text-orange-300">
+                            myöhässä {alarmLateMinutes.value} min
+                        </div>
+                    )}
+                    {snoozesUsed > 0 && (
+                        <div class="text-xs opacity-80">
+                            Torkutettu {snoozesUsed}/{alarm.maxSnoozes}
+                        </div>
+                    )}
+                </div>
+
+                {challengeActive && (
+                    <DismissChallenge
+                        type={alarm.challenge}
+                        holdSeconds={alarm.challengeHoldSeconds}
+                        color={alarm.color}
+                        onSolved={dismissAlarm}
+                    />
+                )}
+            </div>
+
+            <div class="pointer-events-auto flex gap-4 w-full max-w-md">
+                {canSnooze.value && (
+                    <button
+                        type="button"
+                        onClick={snoozeAlarm}
+                        class="flex-1 px-4 py-6 rounded-2xl text-xl font-bold bg-white text-gray-900 shadow-lg"
+                    >
+                        💤 Torkku {alarm.snoozeMinutes} min
+                    </button>
+                )}
+                {!challengeActive && (
+                    <button
+                        type="button"
+                        onClick={requestDismiss}
+                        class="flex-1 px-4 py-6 rounded-2xl text-xl font-bold bg-gray-900 text-white shadow-lg"
+                    >
+                        ⏹ Lopeta
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+// Full-screen overlay shown while an alarm is ringing. The flashing
+// background from AlarmFlashBackground shows through it.
+export function AlarmOverlay() {
+    const alarm = triggeredAlarm.value;
+    if (!alarm) {
+        return null;
+    }
+
+    return <AlarmOverlayContent key={alarm.id} alarm={alarm} />;
+}
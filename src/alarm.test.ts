@@ -0,0 +1,289 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./history", () => ({ recordAlarmEvent: vi.fn() }));
+// jsdom has no Web Audio
+vi.mock("./sounds", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("./sounds")>()),
+    playAlarmSound: vi.fn(),
+    stopAlarmSound: vi.fn(),
+}));
+
+// The tests run in Europe/Helsinki (see vite.config.ts). Times are written
+// with their UTC offset so that DST changes are explicit.
+
+type AlarmModule = typeof import("./alarm");
+type Alarm = import("./alarm").Alarm;
+
+let alarm: AlarmModule;
+let recordAlarmEvent: ReturnType<typeof vi.fn>;
+
+beforeEach(async () => {
+    // Fresh fire schedule and alarm list for every test
+    vi.resetModules();
+    vi.clearAllMocks();
+    window.history.replaceState({}, "", "/");
+    alarm = await import("./alarm");
+    recordAlarmEvent = vi.mocked((await import("./history")).recordAlarmEvent);
+});
+
+function setDailyAlarm(hours: number, minutes: number) {
+    alarm.alarms.value = [
+        alarm.createAlarm({
+            id: "a",
+            enabled: true,
+            hours,
+            minutes,
+            repeat: { type: "days", days: [0, 1, 2, 3, 4, 5, 6] },
+        }),
+    ];
+}
+
+function check(time: string) {
+    return alarm.checkAlarm(new Date(time));
+}
+
+// Check every minute between the two times and collect the due alarms
+function checkEveryMinute(from: string, to: string) {
+    const fired: { at: Date; lateMinutes: number }[] = [];
+    const end = new Date(to).getTime();
+    for (let t = new Date(from).getTime(); t <= end; t += 60 * 1000) {
+        const due = alarm.checkAlarm(new Date(t));
+        if (due) {
+            fired.push({ at: new Date(t), lateMinutes: due.lateMinutes });
+        }
+    }
+    return fired;
+}
+
+describe("checkAlarm", () => {
+    it("fires on time once", () => {
+        setDailyAlarm(7, 0);
+
+        expect(check("2026-01-14T06:59:00+02:00")).toBeNull();
+        expect(check("2026-01-14T07:00:00+02:00")).toMatchObject({
+            alarm: { id: "a" },
+            lateMinutes: 0,
+        });
+        expect(
+            checkEveryMinute(
+                "2026-01-14T07:00:30+02:00",
+                "2026-01-14T09:00:00+02:00",
+            ),
+        ).toEqual([]);
+    });
+
+    it("fires late once after a forward jump within the limit", () => {
+        setDailyAlarm(7, 0);
+
+        expect(check("2026-01-14T06:50:00+02:00")).toBeNull();
+        // Device slept over the alarm time
+        expect(check("2026-01-14T08:30:00+02:00")).toMatchObject({
+            alarm: { id: "a" },
+            lateMinutes: 90,
+        });
+        expect(check("2026-01-14T08:30:01+02:00")).toBeNull();
+        expect(alarm.missedAlarms.value).toEqual([]);
+    });
+
+    it("records a miss once after a forward jump beyond the limit", () => {
+        setDailyAlarm(7, 0);
+
+        expect(check("2026-01-14T06:50:00+02:00")).toBeNull();
+        expect(check("2026-01-14T09:01:00+02:00")).toBeNull();
+        expect(check("2026-01-14T09:02:00+02:00")).toBeNull();
+
+        expect(alarm.missedAlarms.value).toHaveLength(1);
+        expect(alarm.missedAlarms.value[0]).toMatchObject({
+            alarmId: "a",
+            at: new Date("2026-01-14T07:00:00+02:00"),
+        });
+        expect(recordAlarmEvent).toHaveBeenCalledTimes(1);
+        expect(recordAlarmEvent).toHaveBeenCalledWith(
+            expect.objectContaining({
+                type: "miss",
+                alarmId: "a",
+                lateMinutes: 121,
+            }),
+        );
+    });
+
+    it("rings again on the next day after a missed one", () => {
+        setDailyAlarm(7, 0);
+
+        check("2026-01-14T06:50:00+02:00");
+        check("2026-01-14T12:00:00+02:00");
+        expect(check("2026-01-15T07:00:00+02:00")).toMatchObject({
+            alarm: { id: "a" },
+            lateMinutes: 0,
+        });
+    });
+
+    it("doesn't fire again when the clock jumps back over the alarm", () => {
+        setDailyAlarm(7, 0);
+
+        check("2026-01-14T06:59:00+02:00");
+        expect(check("2026-01-14T07:00:10+02:00")).not.toBeNull();
+        // Clock corrected backwards, e.g. by network time
+        expect(
+            checkEveryMinute(
+                "2026-01-14T06:50:00+02:00",
+                "2026-01-14T07:10:00+02:00",
+            ),
+        ).toEqual([]);
+    });
+
+    it("still fires when the clock jumps back before it was due", () => {
+        setDailyAlarm(7, 0);
+
+        check("2026-01-14T06:55:00+02:00");
+        check("2026-01-14T06:30:00+02:00");
+        expect(
+            checkEveryMinute(
+                "2026-01-14T06:31:00+02:00",
+                "2026-01-14T07:10:00+02:00",
+            ),
+        ).toEqual([
+            { at: new Date("2026-01-14T07:00:00+02:00"), lateMinutes: 0 },
+        ]);
+    });
+
+    it("fires once when DST ends and the alarm minute repeats", () => {
+        // 04:00 EEST becomes 03:00 EET on 2026-10-25, 03:30 happens twice
+        setDailyAlarm(3, 30);
+
+        expect(
+            checkEveryMinute(
+                "2026-10-25T02:00:00+03:00",
+                "2026-10-25T05:00:00+02:00",
+            ),
+        ).toEqual([
+            { at: new Date("2026-10-25T03:30:00+03:00"), lateMinutes: 0 },
+        ]);
+    });
+
+    it("fires once when DST starts and skips the alarm minute", () => {
+        // 03:00 EET becomes 04:00 EEST on 2026-03-29, there is no 03:30
+        setDailyAlarm(3, 30);
+
+        const fired = checkEveryMinute(
+            "2026-03-29T02:00:00+02:00",
+            "2026-03-29T06:00:00+03:00",
+        );
+        expect(fired).toHaveLength(1);
+        expect(fired[0]?.lateMinutes).toBe(0);
+        expect(alarm.missedAlarms.value).toEqual([]);
+    });
+
+    it("marks the skipped minute missed after a long sleep over DST start", () => {
+        setDailyAlarm(3, 30);
+
+        check("2026-03-29T02:00:00+02:00");
+        expect(check("2026-03-29T08:00:00+03:00")).toBeNull();
+        expect(alarm.missedAlarms.value).toHaveLength(1);
+    });
+});
+
+describe("checkPreAlarm", () => {
+    it("returns every alarm with a pre-alarm due, nearest first", () => {
+        const preAlarm: Partial<Alarm> = {
+            enabled: true,
+            repeat: { type: "days", days: [0, 1, 2, 3, 4, 5, 6] },
+            preAlarmEnabled: true,
+            preAlarmSchedule: { type: "offsets", offsets: [10, 30] },
+        };
+        alarm.alarms.value = [
+            alarm.createAlarm({ ...preAlarm, id: "a", hours: 7, minutes: 30 }),
+            alarm.createAlarm({ ...preAlarm, id: "b", hours: 7, minutes: 10 }),
+        ];
+
+        const due = alarm.checkPreAlarm(new Date("2026-01-14T07:00:00+02:00"));
+
+        expect(due).toMatchObject([
+            { alarm: { id: "b" }, minutesRemaining: 10 },
+            { alarm: { id: "a" }, minutesRemaining: 30 },
+        ]);
+        expect(recordAlarmEvent).toHaveBeenCalledTimes(2);
+        expect(
+            alarm.checkPreAlarm(new Date("2026-01-14T07:00:30+02:00")),
+        ).toEqual([]);
+    });
+
+    it("records the pre-alarms of an alarm once", () => {
+        alarm.alarms.value = [
+            alarm.createAlarm({
+                id: "a",
+                enabled: true,
+                hours: 7,
+                minutes: 30,
+                repeat: { type: "days", days: [0, 1, 2, 3, 4, 5, 6] },
+                preAlarmEnabled: true,
+                preAlarmSchedule: { type: "offsets", offsets: [10, 30] },
+            }),
+        ];
+
+        expect(
+            alarm.checkPreAlarm(new Date("2026-01-14T07:00:00+02:00")),
+        ).toHaveLength(1);
+        expect(
+            alarm.checkPreAlarm(new Date("2026-01-14T07:20:00+02:00")),
+        ).toHaveLength(1);
+        expect(recordAlarmEvent).toHaveBeenCalledTimes(1);
+
+        alarm.checkPreAlarm(new Date("2026-01-15T07:00:00+02:00"));
+        expect(recordAlarmEvent).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe("missAlarm", () => {
+    it("stops a test ring without recording a miss", () => {
+        setDailyAlarm(7, 0);
+        alarm.testAlarm(alarm.alarms.value[0]!);
+
+        alarm.missAlarm();
+
+        expect(alarm.alarmTriggered.value).toBe(false);
+        expect(alarm.snoozeState.value).toBeNull();
+        expect(alarm.missedAlarms.value).toEqual([]);
+        expect(recordAlarmEvent).not.toHaveBeenCalled();
+    });
+});
+
+describe("getNextAlarmTime", () => {
+    it("keeps a pinned zone's time that falls into a DST gap of the device", () => {
+        // 03:30 doesn't exist in Helsinki on 2026-03-29 but does in Tokyo
+        const tokyo = alarm.createAlarm({
+            id: "a",
+            enabled: true,
+            hours: 3,
+            minutes: 30,
+            repeat: { type: "days", days: [0, 1, 2, 3, 4, 5, 6] },
+            timeZone: "Asia/Tokyo",
+        });
+
+        expect(
+            alarm.getNextAlarmTime(
+                tokyo,
+                new Date("2026-03-29T03:00:00+09:00"),
+            ),
+        ).toEqual(new Date("2026-03-29T03:30:00+09:00"));
+    });
+
+    it("uses the pinned zone's calendar day", () => {
+        const newYork = alarm.createAlarm({
+            id: "a",
+            enabled: true,
+            hours: 22,
+            minutes: 0,
+            repeat: { type: "once" },
+            timeZone: "America/New_York",
+        });
+
+        // Already the next day in Helsinki
+        expect(
+            alarm.getNextAlarmTime(
+                newYork,
+                new Date("2026-01-14T21:00:00-05:00"),
+            ),
+        ).toEqual(new Date("2026-01-14T22:00:00-05:00"));
+    });
+});
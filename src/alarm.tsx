@@ -4,250 +4,497 @@ import { Tooltip } from "./Tooltip";
 import { TimeField } from "./TimeField";
 import { SettingsCard, SettingsRow, CheckboxRow } from "./SettingsCard";
 import { useEffect, useRef } from "preact/hooks";
-import { urlSignal } from "./utils";
-
-// Dragging state for alarm hand
-export const alarmHandDragging = signal(false);
-
-// Alarm state (hours stored as 0-11)
-export const alarmEnabled = urlSignal<boolean>("alarmEnabled", false);
-export const alarmHours = urlSignal<number>("alarmHours", 8);
-export const alarmMinutes = urlSignal<number>("alarmMinutes", 30);
-export const preAlarmEnabled = urlSignal<boolean>("preAlarmEnabled", false);
-export const preAlarmInterval = urlSignal<number>("preAlarmInterval", 5);
-export const alarmTriggered = signal(false);
-export const voice = signal<SpeechSynthesisVoice | null>(null);
-
-// Export preAlarmEnabled as a type-safe function for use in components
-export const togglePreAlarm = () => {
-    preAlarmEnabled.value = !preAlarmEnabled.value;
-};
+import { urlSignal, getClockAngle } from "./utils";
+import { arrayCodec, enumCodec, isRecord, withDefaults } from "./codec";
+import { DismissChallengeType, challengeLabels } from "./challenges";
+import {
+    AlarmSound,
+    SoundPicker,
+    alarmSoundCodec,
+    playAlarmSound,
+    playSoundOnce,
+    stopAlarmSound,
+} from "./sounds";
+import { voice, speakMessage, cancelSpeech } from "./speech";
+import {
+    getZonedDate,
+    timeZoneCodec,
+    toZonedTime,
+    TimeZoneSelect,
+    zonedDateTime,
+} from "./timezone";
+import { recordAlarmEvent } from "./history";
+import { nightAccent } from "./night";
+import {
+    PreAlarmSchedule,
+    PreAlarmScheduleSettings,
+    getUpcomingPreAlarms,
+    preAlarmScheduleCodec,
+    isPreAlarmDue,
+} from "./prealarm";
+import {
+    AlarmRepeat,
+    AlarmRepeatType,
+    createRepeat,
+    formatDateKey,
+    occursOnDate,
+    repeatCodec,
+    repeatTypeLabels,
+    weekdayLabels,
+} from "./recurrence";
+
+export interface Alarm {
+    id: string;
+    label: string;
+    enabled: boolean;
+    // Hours stored as 0-23
+    hours: number;
+    minutes: number;
+    // Ring at both hours % 12 and hours % 12 + 12
+    twiceADay: boolean;
+    repeat: AlarmRepeat;
+    color: string;
+    sound: AlarmSound;
+    preAlarmEnabled: boolean;
+    preAlarmSchedule: PreAlarmSchedule;
+    preAlarmSound: AlarmSound;
+    snoozeMinutes: number;
+    // 0 disables snoozing
+    maxSnoozes: number;
+    // Task to complete before the alarm can be stopped
+    challenge: DismissChallengeType;
+    challengeHoldSeconds: number;
+    // Seconds to ramp the sound from silent to maxVolume, 0 starts at full
+    fadeInSeconds: number;
+    // 0-1
+    maxVolume: number;
+    // Stop ringing and record the alarm as missed after this, 0 rings forever
+    autoStopMinutes: number;
+    // Ring again this long after a miss, 0 disables
+    refireMinutes: number;
+    // Speak the time, label and announceText between sound rounds
+    announceEnabled: boolean;
+    announceText: string;
+    // IANA zone the alarm time is in, null follows the device. Pinning keeps
+    // the alarm at the same wall clock time of that zone across DST changes.
+    timeZone: string | null;
+}
 
-// Audio context for alarm sound
-let audioContext: AudioContext | null = null;
-let oscillatorNode: OscillatorNode | null = null;
-let gainNode: GainNode | null = null;
+// Colours for the alarm hands, picked in order for new alarms
+export const alarmColors = [
+    "#f97316",
+    "#3b82f6",
+    "#22c55e",
+    "#a855f7",
+    "#ec4899",
+    "#14b8a6",
+];
+
+function createAlarmId() {
+    return Math.random().toString(36).substring(2, 10);
+}
 
-// Computed signal for formatted alarm time (shows 12-hour format)
-export const alarmTimeFormatted = computed(() => {
-    const h = alarmHours.value.toString().padStart(2, "0");
-    const m = alarmMinutes.value.toString().padStart(2, "0");
-    return `${h}:${m}`;
-});
+export function createAlarm(overrides: Partial<Alarm> = {}): Alarm {
+    return {
+        id: createAlarmId(),
+        label: "Herätys",
+        enabled: false,
+        hours: 8,
+        minutes: 30,
+        twiceADay: false,
+        repeat: { type: "once" },
+        color: alarmColors[0]!,
+        sound: "chime",
+        preAlarmEnabled: false,
+        preAlarmSchedule: { type: "interval", interval: 5, startMinutes: 60 },
+        preAlarmSound: "ding",
+        snoozeMinutes: 9,
+        maxSnoozes: 3,
+        challenge: "none",
+        challengeHoldSeconds: 5,
+        fadeInSeconds: 0,
+        maxVolume: 1,
+        autoStopMinutes: 0,
+        refireMinutes: 0,
+        announceEnabled: false,
+        announceText: "",
+        timeZone: null,
+        ...overrides,
+    };
+}
 
-function computeMinutesUntilAlarm(currentTime: Date): number {
-    const currentHours = currentTime.getHours();
-    const currentMinutes = currentTime.getMinutes();
-    const currentTotalMinutes = currentHours * 60 + currentMinutes;
+// Old links are turned into the alarms list by the URL migrations. Without
+// any alarms the list starts with this one.
+function createDefaultAlarm(): Alarm {
+    return createAlarm({
+        id: "default",
+        twiceADay: true,
+        preAlarmSchedule: {
+            type: "interval",
+            interval: 5,
+            startMinutes: 24 * 60,
+        },
+    });
+}
 
-    const alarmTotalMinutes1 = alarmHours.value * 60 + alarmMinutes.value;
-    const alarmTotalMinutes2 =
-        (alarmHours.value + 12) * 60 + alarmMinutes.value;
+const challengeCodec = enumCodec(
+    Object.keys(challengeLabels) as DismissChallengeType[],
+);
 
-    if (currentTotalMinutes < alarmTotalMinutes1) {
-        return alarmTotalMinutes1 - currentTotalMinutes;
-    } else if (currentTotalMinutes < alarmTotalMinutes2) {
-        return alarmTotalMinutes2 - currentTotalMinutes;
-    } else {
-        return 24 * 60 - currentTotalMinutes + alarmTotalMinutes1;
+// Check an alarm saved to the URL and fill in fields added after it was
+// saved. Returns undefined for values that are not alarms.
+function normalizeAlarm(saved: unknown): Alarm | undefined {
+    if (!isRecord(saved)) return undefined;
+    const defaults = createAlarm();
+    const alarm = withDefaults(defaults, saved) ?? defaults;
+
+    // Out of range times would break the hand angles
+    if (!Number.isInteger(alarm.hours) || alarm.hours < 0 || alarm.hours > 23) {
+        alarm.hours = defaults.hours;
     }
+    if (
+        !Number.isInteger(alarm.minutes) ||
+        alarm.minutes < 0 ||
+        alarm.minutes > 59
+    ) {
+        alarm.minutes = defaults.minutes;
+    }
+    alarm.repeat = repeatCodec.validate(saved.repeat) ?? defaults.repeat;
+    // Renamed to preAlarmSchedule
+    const preAlarmSchedule =
+        saved.preAlarmSchedule === undefined &&
+        typeof saved.preAlarmInterval === "number"
+            ? {
+                  type: "interval",
+                  interval: saved.preAlarmInterval,
+                  startMinutes: 24 * 60,
+              }
+            : saved.preAlarmSchedule;
+    alarm.preAlarmSchedule =
+        preAlarmScheduleCodec.validate(preAlarmSchedule) ??
+        defaults.preAlarmSchedule;
+    alarm.sound = alarmSoundCodec.validate(saved.sound) ?? defaults.sound;
+    alarm.preAlarmSound =
+        alarmSoundCodec.validate(saved.preAlarmSound) ?? defaults.preAlarmSound;
+    alarm.challenge =
+        challengeCodec.validate(saved.challenge) ?? defaults.challenge;
+    alarm.timeZone =
+        timeZoneCodec.validate(saved.timeZone) ?? defaults.timeZone;
+    alarm.maxVolume = Math.min(Math.max(alarm.maxVolume, 0), 1);
+    return alarm;
 }
 
-// Computed signal for time until next alarm
-export function computeTimeToNextAlarm(currentTime: Signal<Date>) {
-    return computed(() => {
-        if (!alarmEnabled.value) {
-            return null;
-        }
+export const alarms = urlSignal<Alarm[]>(
+    "alarms",
+    [createDefaultAlarm()],
+    arrayCodec(normalizeAlarm),
+);
+
+// Dragging state for alarm hands
+export const draggedAlarmId = signal<string | null>(null);
+export const alarmHandDragging = computed(() => draggedAlarmId.value !== null);
+
+// Id of the alarm that is currently ringing
+export const triggeredAlarmId = signal<string | null>(null);
+export const alarmTriggeredAt = signal<Date | null>(null);
+// Minutes the ringing alarm started after its time
+export const alarmLateMinutes = signal(0);
+
+export interface MissedAlarm {
+    alarmId: string;
+    label: string;
+    at: Date;
+}
 
-        const now = currentTime.value;
-        const currentSeconds = now.getSeconds();
-        const minutesUntilAlarm = computeMinutesUntilAlarm(now);
-        const secondsUntilAlarm = minutesUntilAlarm * 60 - currentSeconds;
+// Alarms that rang until auto-stop without anyone stopping them
+export const missedAlarms = signal<MissedAlarm[]>([]);
 
-        const hours = Math.floor(secondsUntilAlarm / 3600);
-        const minutes = Math.floor((secondsUntilAlarm % 3600) / 60);
-        const seconds = secondsUntilAlarm % 60;
+export function clearMissedAlarms() {
+    missedAlarms.value = [];
+}
+export const alarmTriggered = computed(() => triggeredAlarmId.value !== null);
 
-        return { hours, minutes, seconds };
-    });
+export const triggeredAlarm = computed(
+    () => alarms.value.find((a) => a.id === triggeredAlarmId.value) ?? null,
+);
+
+interface SnoozeState {
+    alarmId: string;
+    // When the snoozed alarm rings again, null while it is ringing
+    until: Date | null;
+    count: number;
 }
 
-// Check if current time matches alarm time (triggers on both AM and PM)
-export function checkAlarm(currentTime: Date): boolean {
-    const hours = currentTime.getHours();
-    const minutes = currentTime.getMinutes();
+export const snoozeState = signal<SnoozeState | null>(null);
 
-    // Convert current 24-hour time to 12-hour format for comparison
-    const hours12 = hours % 12;
+export const canSnooze = computed(() => {
+    const alarm = triggeredAlarm.value;
+    if (!alarm) return false;
+    const state = snoozeState.value;
+    const count = state?.alarmId === alarm.id ? state.count : 0;
+    return count < alarm.maxSnoozes;
+});
 
-    console.log("checkAlarm called:", {
-        enabled: alarmEnabled.value,
-        triggered: alarmTriggered.value,
-        currentTime: `${hours}:${minutes}`,
-        alarmTime: `${alarmHours.value}:${alarmMinutes.value}`,
-        hours12,
-    });
+export const enabledAlarms = computed(() =>
+    alarms.value.filter((a) => a.enabled),
+);
 
-    if (!alarmEnabled.value || alarmTriggered.value) {
-        return false;
-    }
+export const anyAlarmEnabled = computed(() => enabledAlarms.value.length > 0);
 
-    // Match on 12-hour basis (triggers at both AM and PM)
-    return hours12 === alarmHours.value && minutes === alarmMinutes.value;
+export function updateAlarm(id: string, patch: Partial<Alarm>) {
+    alarms.value = alarms.value.map((a) =>
+        a.id === id ? { ...a, ...patch } : a,
+    );
 }
 
-// Play a pleasant alarm sound
-export function playAlarmSound() {
-    if (audioContext) return; // Already playing
-
-    audioContext = new AudioContext();
-    audioContext.resume();
-    gainNode = audioContext.createGain();
-    gainNode.connect(audioContext.destination);
-    gainNode.gain.setValueAtTime(1, audioContext.currentTime);
+export function addAlarm() {
+    const usedColors = new Set(alarms.value.map((a) => a.color));
+    const color =
+        alarmColors.find((c) => !usedColors.has(c)) ??
+        alarmColors[alarms.value.length % alarmColors.length]!;
 
-    // Create a pleasant chime-like sound
-    const playChime = (startTime: number, frequency: number) => {
-        const osc = audioContext!.createOscillator();
-        const oscGain = audioContext!.createGain();
+    alarms.value = [
+        ...alarms.value,
+        createAlarm({ enabled: true, color, label: "Hälytys" }),
+    ];
+}
 
-        osc.type = "sine";
-        osc.frequency.setValueAtTime(frequency, startTime);
+export function removeAlarm(id: string) {
+    if (triggeredAlarmId.value === id) {
+        dismissAlarm();
+    }
+    alarms.value = alarms.value.filter((a) => a.id !== id);
+}
 
-        oscGain.gain.setValueAtTime(0, startTime);
-        oscGain.gain.linearRampToValueAtTime(0.3, startTime + 0.05);
-        oscGain.gain.exponentialRampToValueAtTime(0.01, startTime + 0.8);
+export const togglePreAlarm = (alarm: Alarm) => {
+    updateAlarm(alarm.id, { preAlarmEnabled: !alarm.preAlarmEnabled });
+};
 
-        osc.connect(oscGain);
-        oscGain.connect(gainNode!);
+// Formatted alarm time. 24-hour format, or both times for twice a day alarms.
+export function formatAlarmTime(alarm: Alarm) {
+    const m = alarm.minutes.toString().padStart(2, "0");
+    if (alarm.twiceADay) {
+        const h1 = (alarm.hours % 12).toString().padStart(2, "0");
+        const h2 = ((alarm.hours % 12) + 12).toString().padStart(2, "0");
+        return `${h1}:${m} / ${h2}:${m}`;
+    }
+    const h = alarm.hours.toString().padStart(2, "0");
+    return `${h}:${m}`;
+}
 
-        osc.start(startTime);
-        osc.stop(startTime + 0.8);
-    };
+// Hours of the day the alarm rings at
+function getAlarmHoursOfDay(alarm: Alarm) {
+    if (alarm.twiceADay) {
+        return [alarm.hours % 12, (alarm.hours % 12) + 12];
+    }
+    return [alarm.hours];
+}
 
-    // Play a repeating chime pattern
-    const playPattern = () => {
-        if (!audioContext) return;
-
-        const now = audioContext.currentTime;
-        // Pleasant chord: C5, E5, G5
-        playChime(now, 523.25); // C5
-        playChime(now + 0.15, 659.25); // E5
-        playChime(now + 0.3, 783.99); // G5
-        playChime(now + 0.6, 1046.5); // C6
-
-        // Repeat after 1.5 seconds
-        setTimeout(() => {
-            if (alarmTriggered.value && audioContext) {
-                playPattern();
+// How far ahead to look for the next occurrence. Covers a year of
+// "every N days" rules and one-off dates.
+const MAX_LOOKAHEAD_DAYS = 366;
+
+// Next time the alarm rings after the current minute, or null if the repeat
+// rule has no future occurrences
+export function getNextAlarmTime(alarm: Alarm, currentTime: Date): Date | null {
+    const minuteStart = new Date(currentTime);
+    minuteStart.setSeconds(0, 0);
+
+    // Search the calendar days of the alarm's zone. The times are built
+    // from their parts, a wall clock Date would shift times that fall into
+    // a DST gap of the device's zone.
+    const today = getZonedDate(currentTime, alarm.timeZone);
+    for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+        const day = new Date(today.year, today.month, today.day + offset);
+        if (!occursOnDate(alarm.repeat, day)) continue;
+
+        for (const hours of getAlarmHoursOfDay(alarm)) {
+            const candidate = zonedDateTime(
+                day.getFullYear(),
+                day.getMonth(),
+                day.getDate(),
+                hours,
+                alarm.minutes,
+                alarm.timeZone,
+            );
+            if (candidate > minuteStart) {
+                return candidate;
             }
-        }, 1500);
-    };
+        }
+    }
 
-    playPattern();
+    return null;
 }
 
-// Stop the alarm sound
-export function stopAlarmSound() {
-    if (oscillatorNode) {
-        oscillatorNode.stop();
-        oscillatorNode.disconnect();
-        oscillatorNode = null;
-    }
-    if (gainNode) {
-        gainNode.disconnect();
-        gainNode = null;
-    }
-    if (audioContext) {
-        audioContext.close();
-        audioContext = null;
+function computeMinutesUntilAlarm(
+    alarm: Alarm,
+    currentTime: Date,
+): number | null {
+    const next = getNextAlarmTime(alarm, currentTime);
+    if (!next) return null;
+
+    const minuteStart = new Date(currentTime);
+    minuteStart.setSeconds(0, 0);
+    return Math.round((next.getTime() - minuteStart.getTime()) / 60000);
+}
+
+function findNearestAlarm(currentTime: Date) {
+    let nearest: { alarm: Alarm; next: Date } | null = null;
+
+    for (const alarm of enabledAlarms.value) {
+        const next = getNextAlarmTime(alarm, currentTime);
+        if (next && (!nearest || next < nearest.next)) {
+            nearest = { alarm, next };
+        }
     }
+
+    return nearest;
 }
 
-function playDing() {
-    return new Promise<void>((resolve) => {
-        const ctx = new AudioContext();
-        ctx.resume();
-        const osc = ctx.createOscillator();
-        const gain = ctx.createGain();
+// Computed signal for time until the given alarm, or the nearest enabled
+// alarm if no id is given
+export function computeTimeToNextAlarm(
+    currentTime: Signal<Date>,
+    alarmId?: string,
+) {
+    return computed(() => {
+        const now = currentTime.value;
+        let next: { alarm: Alarm; next: Date } | null = null;
 
-        osc.type = "sine";
-        osc.frequency.setValueAtTime(523.25, ctx.currentTime); // C5
+        if (alarmId === undefined) {
+            next = findNearestAlarm(now);
+        } else {
+            const alarm = enabledAlarms.value.find((a) => a.id === alarmId);
+            const nextTime = alarm ? getNextAlarmTime(alarm, now) : null;
+            if (alarm && nextTime) {
+                next = { alarm, next: nextTime };
+            }
+        }
 
-        gain.gain.setValueAtTime(0, ctx.currentTime);
-        gain.gain.linearRampToValueAtTime(0.7, ctx.currentTime + 0.02);
-        gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.8);
+        if (!next) {
+            return null;
+        }
 
-        osc.connect(gain);
-        gain.connect(ctx.destination);
+        const secondsUntilAlarm = Math.ceil(
+            (next.next.getTime() - now.getTime()) / 1000,
+        );
 
-        osc.start(ctx.currentTime);
-        const duration = 800;
-        osc.stop(ctx.currentTime + duration / 1000);
+        const days = Math.floor(secondsUntilAlarm / 86400);
+        const hours = Math.floor((secondsUntilAlarm % 86400) / 3600);
+        const minutes = Math.floor((secondsUntilAlarm % 3600) / 60);
+        const seconds = secondsUntilAlarm % 60;
 
-        setTimeout(() => {
-            ctx.close();
-            resolve();
-        }, duration);
+        return {
+            alarm: next.alarm,
+            next: next.next,
+            days,
+            hours,
+            minutes,
+            seconds,
+        };
     });
 }
 
-function setVoice() {
-    const voices = window.speechSynthesis.getVoices();
+// Fields that decide when an alarm rings, changing them reschedules it
+function getScheduleKey(alarm: Alarm) {
+    return JSON.stringify([
+        alarm.hours,
+        alarm.minutes,
+        alarm.twiceADay,
+        alarm.repeat,
+        alarm.timeZone,
+    ]);
+}
 
-    console.log(`Found ${voices.length} speech synthesis voices:`, voices);
+// Absolute time each enabled alarm rings next. Comparing against these
+// instead of the wall clock minute means that a minute skipped while the
+// device slept is still noticed and a minute repeated by a DST change doesn't
+// ring twice.
+const scheduledFires = new Map<string, { at: number; key: string }>();
 
-    const fiVoices = voices.filter(
-        (v) => v.lang.startsWith("fi-") || v.lang.startsWith("fi_"),
-    );
+// Alarms noticed later than this are recorded as missed instead of ringing
+const LATE_FIRE_LIMIT_MINUTES = 120;
 
-    const enVoices = voices.filter(
-        (v) => v.lang.startsWith("en-") || v.lang.startsWith("en_"),
-    );
-
-    voice.value =
-        fiVoices.find((v) => v.name.toLowerCase().includes("satu")) ||
-        fiVoices[0] ||
-        enVoices[0] ||
-        voice.value;
+export interface DueAlarm {
+    alarm: Alarm;
+    // How much after its time the alarm was noticed, e.g. after sleep
+    lateMinutes: number;
+}
 
-    console.log("Selected voice:", voice.value);
+function scheduleNextFire(alarm: Alarm, currentTime: Date) {
+    const next = getNextAlarmTime(alarm, currentTime);
+    if (next) {
+        const fire = { at: next.getTime(), key: getScheduleKey(alarm) };
+        scheduledFires.set(alarm.id, fire);
+        return fire;
+    }
+    scheduledFires.delete(alarm.id);
+    return null;
 }
 
-setVoice();
+// Find an enabled alarm whose next fire time has passed. Meant to be called
+// on every tick. Due alarms wait while another alarm is ringing.
+export function checkAlarm(currentTime: Date): DueAlarm | null {
+    const now = currentTime.getTime();
+    const enabled = enabledAlarms.value;
 
-window.speechSynthesis.removeEventListener("voiceschanged", () => {
-    setVoice();
-});
+    for (const id of scheduledFires.keys()) {
+        if (!enabled.some((a) => a.id === id)) {
+            scheduledFires.delete(id);
+        }
+    }
 
-window.addEventListener("load", () => {
-    setVoice();
-});
+    const due: { alarm: Alarm; at: number }[] = [];
+    for (const alarm of enabled) {
+        let fire = scheduledFires.get(alarm.id);
+        if (!fire || fire.key !== getScheduleKey(alarm)) {
+            fire = scheduleNextFire(alarm, currentTime) ?? undefined;
+        }
+        if (fire && now >= fire.at) {
+            due.push({ alarm, at: fire.at });
+        }
+    }
 
-function speakMessage(text: string): Promise<void> {
-    return new Promise<void>((resolve) => {
-        const utterance = new SpeechSynthesisUtterance(text);
-        console.log("usinng voice", voice.value);
-        utterance.voice = voice.value;
-        utterance.lang = voice.value?.lang || "en-US";
-        utterance.rate = 1;
-        utterance.pitch = 1;
-        utterance.volume = 0.7;
-        utterance.onend = () => resolve();
-        utterance.onerror = () => resolve();
-        window.speechSynthesis.speak(utterance);
-    });
+    if (alarmTriggered.value) {
+        return null;
+    }
+
+    due.sort((a, b) => a.at - b.at);
+    for (const { alarm, at } of due) {
+        scheduleNextFire(alarm, currentTime);
+
+        const lateMinutes = Math.floor((now - at) / 60000);
+        if (lateMinutes <= LATE_FIRE_LIMIT_MINUTES) {
+            return { alarm, lateMinutes };
+        }
+        missedAlarms.value = [
+            ...missedAlarms.value,
+            { alarmId: alarm.id, label: alarm.label, at: new Date(at) },
+        ];
+        recordAlarmEvent({
+            type: "miss",
+            alarmId: alarm.id,
+            label: alarm.label,
+            lateMinutes,
+        });
+    }
+
+    return null;
 }
 
-export async function playPreAlarmDing(minutesRemaining: number) {
-    await playDing();
+export async function playPreAlarmDing(
+    minutesRemaining: number,
+    label?: string,
+    sound: AlarmSound = "ding",
+) {
+    await playSoundOnce(sound);
     if (!("speechSynthesis" in window) || !window.speechSynthesis) {
         return;
     }
 
     const hours = Math.floor(minutesRemaining / 60);
     const minutes = minutesRemaining % 60;
+    const prefix = label ? `${label}: ` : "";
 
     if (voice.value?.lang.startsWith("fi")) {
         let message: string;
@@ -260,7 +507,7 @@ export async function playPreAlarmDing(minutesRemaining: number) {
         } else {
             message = `${minutes} minuuttia jäljellä`;
         }
-        await speakMessage(message);
+        await speakMessage(prefix + message);
     } else {
         let message: string;
         if (hours > 0 && minutes > 0) {
@@ -272,98 +519,480 @@ export async function playPreAlarmDing(minutesRemaining: number) {
         } else {
             message = `${minutes} minutes remaining`;
         }
-        await speakMessage(message);
+        await speakMessage(prefix + message);
     }
 }
 
-// Track last pre-alarm notification minute to avoid re-triggering
-const lastPreAlarmMinute = signal(-1);
+// Message spoken while the alarm rings: current time, label and custom text
+export function buildAlarmAnnouncement(alarm: Alarm, currentTime: Date) {
+    const hours = currentTime.getHours();
+    const minutes = currentTime.getMinutes().toString().padStart(2, "0");
+    const parts: string[] = [];
+
+    if (voice.value?.lang.startsWith("fi")) {
+        parts.push(`Kello on ${hours}.${minutes}`);
+    } else {
+        parts.push(`The time is ${hours}:${minutes}`);
+    }
+
+    if (alarm.label.trim()) {
+        parts.push(alarm.label.trim());
+    }
+    if (alarm.announceText.trim()) {
+        parts.push(alarm.announceText.trim());
+    }
+
+    return parts.join(". ");
+}
+
+// Minimum time between announcements so the sound still gets through
+const ANNOUNCEMENT_INTERVAL = 15 * 1000;
+
+// Returns a betweenRounds callback for playAlarmSound that speaks the
+// announcement after the first round and then every ANNOUNCEMENT_INTERVAL
+function createAnnouncer(alarm: Alarm) {
+    let lastSpokenAt = 0;
+
+    return async () => {
+        if (!("speechSynthesis" in window) || !window.speechSynthesis) {
+            return;
+        }
+        if (Date.now() - lastSpokenAt < ANNOUNCEMENT_INTERVAL) {
+            return;
+        }
+        await speakMessage(
+            buildAlarmAnnouncement(
+                alarm,
+                toZonedTime(new Date(), alarm.timeZone),
+            ),
+        );
+        lastSpokenAt = Date.now();
+    };
+}
+
+// Track last pre-alarm notification minute per alarm to avoid re-triggering
+const lastPreAlarmMinute = new Map<string, number>();
 
 // Export lastPreAlarmMinute for testing
 export { lastPreAlarmMinute };
 
-export function checkPreAlarm(currentTime: Date): number | false {
-    if (!preAlarmEnabled.value || !alarmEnabled.value || alarmTriggered.value) {
-        return false;
+// Alarm time, in epoch minutes, whose pre-alarms are already in the history.
+// The history gets one entry per alarm, not one per announcement.
+const recordedPreAlarms = new Map<string, number>();
+
+export interface PreAlarm {
+    alarm: Alarm;
+    minutesRemaining: number;
+}
+
+// Returns every alarm that has a pre-alarm notification due, nearest first
+export function checkPreAlarm(currentTime: Date): PreAlarm[] {
+    if (alarmTriggered.value) {
+        return [];
     }
 
     const currentHours = currentTime.getHours();
     const currentMinutes = currentTime.getMinutes();
     const currentTotalMinutes = currentHours * 60 + currentMinutes;
 
-    const minutesUntilAlarm = computeMinutesUntilAlarm(currentTime);
-
-    if (
-        minutesUntilAlarm > 0 &&
-        minutesUntilAlarm % preAlarmInterval.value === 0
-    ) {
-        if (currentTotalMinutes !== lastPreAlarmMinute.value) {
-            lastPreAlarmMinute.value = currentTotalMinutes;
-            return minutesUntilAlarm;
+    const due: PreAlarm[] = [];
+
+    for (const alarm of enabledAlarms.value) {
+        if (!alarm.preAlarmEnabled) continue;
+
+        const minutesUntilAlarm = computeMinutesUntilAlarm(alarm, currentTime);
+
+        if (
+            minutesUntilAlarm !== null &&
+            isPreAlarmDue(alarm.preAlarmSchedule, minutesUntilAlarm) &&
+            currentTotalMinutes !== lastPreAlarmMinute.get(alarm.id)
+        ) {
+            lastPreAlarmMinute.set(alarm.id, currentTotalMinutes);
+            due.push({ alarm, minutesRemaining: minutesUntilAlarm });
+
+            const alarmMinute =
+                Math.floor(currentTime.getTime() / 60000) + minutesUntilAlarm;
+            if (recordedPreAlarms.get(alarm.id) !== alarmMinute) {
+                recordedPreAlarms.set(alarm.id, alarmMinute);
+                recordAlarmEvent({
+                    type: "prealarm",
+                    alarmId: alarm.id,
+                    label: alarm.label,
+                    minutesRemaining: minutesUntilAlarm,
+                });
+            }
         }
     }
 
-    return false;
+    return due.sort((a, b) => a.minutesRemaining - b.minutesRemaining);
+}
+
+// Announce the pre-alarms one after another so the messages don't overlap
+export async function playPreAlarmDings(preAlarms: PreAlarm[]) {
+    for (const { alarm, minutesRemaining } of preAlarms) {
+        await playPreAlarmDing(
+            minutesRemaining,
+            alarm.label,
+            alarm.preAlarmSound,
+        );
+    }
+}
+
+// Stop was pressed for an alarm with a challenge, the overlay shows it
+export const dismissChallengeOpen = signal(false);
+
+// Stop the ringing alarm, or open its challenge first. Stop buttons both in
+// the page and in notifications go through here.
+export function requestDismiss() {
+    const alarm = triggeredAlarm.value;
+    if (!alarm) return;
+    if (alarm.challenge === "none") {
+        dismissAlarm();
+    } else {
+        dismissChallengeOpen.value = true;
+    }
 }
 
+// Test rings are left out of the history until dismissed
+let testRinging = false;
+
+// When the alarm first rang, kept over snoozes to record how long it took
+// to get up
+let firstRingAt: number | null = null;
+
 // Trigger the alarm
-export function triggerAlarm() {
-    alarmTriggered.value = true;
-    playAlarmSound();
+export function triggerAlarm(alarm: Alarm, lateMinutes = 0) {
+    if (!testRinging) {
+        firstRingAt ??= Date.now();
+        recordAlarmEvent({
+            type: "trigger",
+            alarmId: alarm.id,
+            label: alarm.label,
+            lateMinutes,
+        });
+    }
+    triggeredAlarmId.value = alarm.id;
+    alarmTriggeredAt.value = new Date();
+    dismissChallengeOpen.value = false;
+    alarmLateMinutes.value = lateMinutes;
+    const snooze = snoozeState.value;
+    if (snooze?.alarmId === alarm.id) {
+        snoozeState.value = { ...snooze, until: null };
+    }
+    playAlarmSound("alarm", alarm.sound, {
+        fadeInSeconds: alarm.fadeInSeconds,
+        maxVolume: alarm.maxVolume,
+        betweenRounds: alarm.announceEnabled
+            ? createAnnouncer(alarm)
+            : undefined,
+    });
+}
+
+// Stop both the alarm sound and a possible announcement
+function silenceAlarm() {
+    stopAlarmSound("alarm");
+    cancelSpeech();
+}
+
+// Returns the ringing alarm once it has rung for its auto-stop time
+export function checkAutoStop(currentTime: Date): Alarm | null {
+    const alarm = triggeredAlarm.value;
+    const triggeredAt = alarmTriggeredAt.value;
+    if (!alarm || !triggeredAt || alarm.autoStopMinutes <= 0) {
+        return null;
+    }
+
+    const elapsed = currentTime.getTime() - triggeredAt.getTime();
+    return elapsed >= alarm.autoStopMinutes * 60 * 1000 ? alarm : null;
+}
+
+// Stop an alarm nobody reacted to, record it as missed and optionally ring
+// it again later
+export function missAlarm() {
+    const alarm = triggeredAlarm.value;
+    if (!alarm) return;
+
+    // A test ring just stops, it is not missed and doesn't ring again
+    if (testRinging) {
+        endAlarm(null);
+        return;
+    }
+
+    missedAlarms.value = [
+        ...missedAlarms.value,
+        { alarmId: alarm.id, label: alarm.label, at: new Date() },
+    ];
+    recordAlarmEvent({
+        type: "miss",
+        alarmId: alarm.id,
+        label: alarm.label,
+    });
+
+    if (alarm.refireMinutes > 0) {
+        const snooze = snoozeState.value;
+        snoozeState.value = {
+            alarmId: alarm.id,
+            until: new Date(Date.now() + alarm.refireMinutes * 60 * 1000),
+            count: snooze?.alarmId === alarm.id ? snooze.count : 0,
+        };
+        triggeredAlarmId.value = null;
+        alarmTriggeredAt.value = null;
+        silenceAlarm();
+    } else {
+        endAlarm(alarm);
+    }
+}
+
+// Silence the ringing alarm and ring it again after its snooze length
+export function snoozeAlarm() {
+    const alarm = triggeredAlarm.value;
+    if (!alarm || !canSnooze.value) return;
+
+    const snooze = snoozeState.value;
+    const count = snooze?.alarmId === alarm.id ? snooze.count : 0;
+    snoozeState.value = {
+        alarmId: alarm.id,
+        until: new Date(Date.now() + alarm.snoozeMinutes * 60 * 1000),
+        count: count + 1,
+    };
+    if (!testRinging) {
+        recordAlarmEvent({
+            type: "snooze",
+            alarmId: alarm.id,
+            label: alarm.label,
+            snoozeCount: count + 1,
+        });
+    }
+    triggeredAlarmId.value = null;
+    alarmTriggeredAt.value = null;
+    silenceAlarm();
+}
+
+// Returns the snoozed alarm when its snooze time has run out
+export function checkSnooze(currentTime: Date): Alarm | null {
+    const snooze = snoozeState.value;
+    if (!snooze?.until || alarmTriggered.value) {
+        return null;
+    }
+
+    const alarm = enabledAlarms.value.find((a) => a.id === snooze.alarmId);
+    if (!alarm) {
+        // Disabled or removed while snoozing
+        snoozeState.value = null;
+        return null;
+    }
+
+    return currentTime >= snooze.until ? alarm : null;
+}
+
+// Computed signal for time left of the current snooze
+export function computeSnoozeRemaining(currentTime: Signal<Date>) {
+    return computed(() => {
+        const until = snoozeState.value?.until;
+        if (!until) return null;
+
+        const secondsLeft = Math.max(
+            0,
+            Math.ceil((until.getTime() - currentTime.value.getTime()) / 1000),
+        );
+        return {
+            minutes: Math.floor(secondsLeft / 60),
+            seconds: secondsLeft % 60,
+        };
+    });
 }
 
 // Dismiss the alarm
 export function dismissAlarm() {
-    alarmTriggered.value = false;
-    alarmEnabled.value = false;
-    stopAlarmSound();
+    const alarm = triggeredAlarm.value;
+    const snooze = snoozeState.value;
+    if (alarm && !testRinging) {
+        recordAlarmEvent({
+            type: "dismiss",
+            alarmId: alarm.id,
+            label: alarm.label,
+            snoozeCount: snooze?.alarmId === alarm.id ? snooze.count : 0,
+            dismissDelaySeconds:
+                firstRingAt !== null
+                    ? Math.round((Date.now() - firstRingAt) / 1000)
+                    : undefined,
+        });
+    }
+    endAlarm(alarm);
+}
+
+function endAlarm(alarm: Alarm | null) {
+    testRinging = false;
+    firstRingAt = null;
+    triggeredAlarmId.value = null;
+    alarmTriggeredAt.value = null;
+    snoozeState.value = null;
+    // One-off alarms are done, repeating ones stay armed for the next time
+    if (alarm && alarm.repeat.type === "once") {
+        updateAlarm(alarm.id, { enabled: false });
+    }
+    silenceAlarm();
 }
 
 // Test the alarm for a short duration
-export function testAlarm() {
+export function testAlarm(alarm: Alarm) {
     if (alarmTriggered.value) return; // Already triggered
     window.scrollTo({ top: 0, behavior: "smooth" });
-    alarmTriggered.value = true;
-    playAlarmSound();
+    testRinging = true;
+    triggerAlarm(alarm);
 }
 
 // Test the pre-alarm notification
-export function testPreAlarm() {
+export function testPreAlarm(alarm: Alarm) {
     const currentTime = new Date();
-    const minutesUntilAlarm = computeMinutesUntilAlarm(currentTime);
-    playPreAlarmDing(minutesUntilAlarm);
-}
-
-// Reset alarm for next day (call when minute changes away from alarm time)
-export function resetAlarmTrigger() {
-    if (alarmTriggered.value) return; // Don't reset if still triggered
-    // This allows the alarm to trigger again the next day
+    const minutesUntilAlarm = computeMinutesUntilAlarm(alarm, currentTime);
+    if (minutesUntilAlarm !== null) {
+        playPreAlarmDing(minutesUntilAlarm, alarm.label, alarm.preAlarmSound);
+    }
 }
 
-// Update alarm hours with wrapping (0-11)
-export function setAlarmHours(hours: number) {
-    alarmHours.value = ((hours % 12) + 12) % 12;
+// Update alarm hours with wrapping (0-23)
+export function setAlarmHours(id: string, hours: number) {
+    updateAlarm(id, { hours: ((hours % 24) + 24) % 24 });
 }
 
 // Update alarm minutes with wrapping
-export function setAlarmMinutes(minutes: number) {
-    alarmMinutes.value = ((minutes % 60) + 60) % 60;
+export function setAlarmMinutes(id: string, minutes: number) {
+    updateAlarm(id, { minutes: ((minutes % 60) + 60) % 60 });
 }
 
 // Toggle alarm enabled state
-export function toggleAlarm() {
-    alarmEnabled.value = !alarmEnabled.value;
-    if (!alarmEnabled.value) {
+export function toggleAlarm(alarm: Alarm) {
+    updateAlarm(alarm.id, { enabled: !alarm.enabled });
+    if (alarm.enabled && triggeredAlarmId.value === alarm.id) {
         dismissAlarm();
     }
+    if (alarm.enabled && snoozeState.value?.alarmId === alarm.id) {
+        snoozeState.value = null;
+    }
 }
 
-interface AlarmTimeInputProps {
+interface RepeatSettingsProps {
+    alarm: Alarm;
+}
+
+function RepeatSettings({ alarm }: RepeatSettingsProps) {
+    const repeat = alarm.repeat;
+
+    const setRepeat = (repeat: AlarmRepeat) => {
+        updateAlarm(alarm.id, { repeat });
+    };
+
+    const handleTypeChange = (e: Event) => {
+        const target = e.target as HTMLSelectElement;
+        setRepeat(createRepeat(target.value as AlarmRepeatType));
+    };
+
+    const toggleDay = (day: number) => {
+        if (repeat.type !== "days") return;
+        const days = repeat.days.includes(day)
+            ? repeat.days.filter((d) => d !== day)
+            : [...repeat.days, day];
+        setRepeat({ ...repeat, days });
+    };
+
+    return (
+        <>
+            <SettingsRow label="Toisto">
+                <select
+                    value={repeat.type}
+                    onInput={handleTypeChange}
+                    class="themed-field w-40 pl-2 pr-6 py-1 text-xs rounded"
+                >
+                    {Object.entries(repeatTypeLabels).map(([value, label]) => (
+                        <option value={value}>{label}</option>
+                    ))}
+                </select>
+            </SettingsRow>
+
+            {repeat.type === "once" && (
+                <SettingsRow label="Päivä" muted>
+                    <input
+                        type="date"
+                        value={repeat.date ?? ""}
+                        min={formatDateKey(new Date())}
+                        onInput={(e) => {
+                            const value = (e.target as HTMLInputElement).value;
+                            setRepeat({
+                                type: "once",
+                                date: value || undefined,
+                            });
+                        }}
+                        class="themed-field w-36 px-2 py-1 rounded text-xs"
+                    />
+                </SettingsRow>
+            )}
+
+            {repeat.type === "days" && (
+                <div class="flex gap-1 justify-end">
+                    {weekdayLabels.map(([day, label]) => (
+                        <button
+                            type="button"
+                            onClick={() => toggleDay(day)}
+                            class={`w-8 h-8 text-xs rounded-full transition-colors ${
+                                repeat.days.includes(day)
+                                    ? "bg-orange-500 text-white"
+                                    : "themed-secondary-button"
+                            }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {repeat.type === "everyNDays" && (
+                <>
+                    <SettingsRow label="Väli" muted>
+                        <input
+                            type="number"
+                            min="1"
+                            max="365"
+                            value={repeat.interval}
+                            onInput={(e) => {
+                                const value = Number(
+                                    (e.target as HTMLInputElement).value,
+                                );
+                                if (!isNaN(value) && value >= 1) {
+                                    setRepeat({ ...repeat, interval: value });
+                                }
+                            }}
+                            class="themed-field w-16 px-2 py-1 rounded text-xs"
+                        />
+                        <span class="text-xs themed-subtle-text">pv</span>
+                    </SettingsRow>
+                    <SettingsRow label="Alkaen" muted>
+                        <input
+                            type="date"
+                            value={repeat.startDate}
+                            onInput={(e) => {
+                                const value = (e.target as HTMLInputElement)
+                                    .value;
+                                if (value) {
+                                    setRepeat({ ...repeat, startDate: value });
+                                }
+                            }}
+                            class="themed-field w-36 px-2 py-1 rounded text-xs"
+                        />
+                    </SettingsRow>
+                </>
+            )}
+        </>
+    );
+}
+
+interface AlarmRowProps {
+    alarm: Alarm;
     currentTime: Signal<Date>;
 }
 
-export function AlarmSettings({ currentTime }: AlarmTimeInputProps) {
-    const timeToNextAlarm = computeTimeToNextAlarm(currentTime);
+function AlarmRow({ alarm, currentTime }: AlarmRowProps) {
+    const timeToNextAlarm = computeTimeToNextAlarm(currentTime, alarm.id);
 
     const handleTimeChange = (e: Event) => {
         const target = e.target as HTMLInputElement;
@@ -371,84 +1000,373 @@ export function AlarmSettings({ currentTime }: AlarmTimeInputProps) {
         const hours = Number(parts[0]);
         const minutes = Number(parts[1]);
         if (!isNaN(hours) && !isNaN(minutes)) {
-            setAlarmHours(hours);
-            setAlarmMinutes(minutes);
+            setAlarmHours(alarm.id, hours);
+            setAlarmMinutes(alarm.id, minutes);
         }
     };
 
-    const handleIntervalChange = (e: Event) => {
+    const handleLabelChange = (e: Event) => {
         const target = e.target as HTMLInputElement;
-        const value = Number(target.value);
-        if (!isNaN(value) && value >= 1) {
-            preAlarmInterval.value = value;
-        }
+        updateAlarm(alarm.id, { label: target.value });
     };
 
+    const nextAlarmTime = timeToNextAlarm.value?.next;
+    const upcomingPreAlarms = nextAlarmTime
+        ? getUpcomingPreAlarms(
+              alarm.preAlarmSchedule,
+              nextAlarmTime,
+              currentTime.value,
+          )
+        : [];
+
     const timeValue =
-        `${String(alarmHours.value).padStart(2, "0")}:` +
-        `${String(alarmMinutes.value).padStart(2, "0")}`;
+        `${String(alarm.hours).padStart(2, "0")}:` +
+        `${String(alarm.minutes).padStart(2, "0")}`;
 
     return (
         <SettingsCard>
-            {/* Alarm master toggle */}
-            <SettingsRow label="Hälytys">
+            {/* Alarm toggle */}
+            <SettingsRow label={alarm.label || "Hälytys"}>
+                <span
+                    class="w-3 h-3 rounded-full shrink-0"
+                    style={{ backgroundColor: alarm.color }}
+                />
                 <ToggleButton
-                    checked={alarmEnabled.value}
+                    checked={alarm.enabled}
                     checkbox
-                    onChange={toggleAlarm}
+                    onChange={() => toggleAlarm(alarm)}
                     checkedClass="bg-orange-500 text-white hover:bg-orange-600"
                 >
-                    ⏰ {alarmEnabled.value ? "Päällä" : "Poistettu"}
+                    ⏰ {alarm.enabled ? "Päällä" : "Poistettu"}
                 </ToggleButton>
             </SettingsRow>
 
-            {alarmEnabled.value && (
+            {alarm.enabled && (
                 <>
+                    {/* Label */}
+                    <SettingsRow label="Nimi">
+                        <input
+                            type="text"
+                            value={alarm.label}
+                            onInput={handleLabelChange}
+                            class="themed-field w-40 px-2 py-1 rounded text-sm"
+                        />
+                    </SettingsRow>
+
                     {/* Time picker */}
                     <SettingsRow label="Herätysaika">
                         <TimeField
-                            id="alarm-time"
+                            id={`alarm-time-${alarm.id}`}
                             label=""
                             value={timeValue}
                             onInput={handleTimeChange}
                         />
                     </SettingsRow>
 
+                    <RepeatSettings alarm={alarm} />
+
+                    <SettingsRow label="Aikavyöhyke">
+                        <TimeZoneSelect
+                            value={alarm.timeZone}
+                            onChange={(timeZone) =>
+                                updateAlarm(alarm.id, { timeZone })
+                            }
+                        />
+                    </SettingsRow>
+
+                    <CheckboxRow
+                        id={`alarm-twice-${alarm.id}`}
+                        label="Kahdesti päivässä (ap. ja ip.)"
+                        checked={alarm.twiceADay}
+                        onChange={() =>
+                            updateAlarm(alarm.id, {
+                                twiceADay: !alarm.twiceADay,
+                            })
+                        }
+                    />
+
                     {/* Drag hint */}
                     <p class="text-xs themed-subtle-text italic">
-                        Voit säätää herätystä myös vetämällä viisaria
+                        Voit säätää herätystä myös vetämällä viisaria. Viisarin
+                        vetäminen kahdentoista yli vaihtaa ap. ja ip.
                     </p>
 
                     {/* Countdown */}
                     {timeToNextAlarm.value && (
                         <p class="text-xs themed-subtle-text">
+                            {timeToNextAlarm.value.days > 0 &&
+                                `${timeToNextAlarm.value.days}pv `}
                             {timeToNextAlarm.value.hours}h{" "}
                             {timeToNextAlarm.value.minutes}min{" "}
                             {timeToNextAlarm.value.seconds}s päästä
                         </p>
                     )}
 
+                    {/* Sound */}
+                    <SettingsRow label="Ääni">
+                        <SoundPicker
+                            id={`alarm-sound-${alarm.id}`}
+                            value={alarm.sound}
+                            volume={alarm.maxVolume}
+                            onChange={(sound) =>
+                                updateAlarm(alarm.id, { sound })
+                            }
+                        />
+                    </SettingsRow>
+
+                    {/* Volume */}
+                    <SettingsRow label="Voimakkuus">
+                        <input
+                            type="range"
+                            min="5"
+                            max="100"
+                            step="5"
+                            value={Math.round(alarm.maxVolume * 100)}
+                            onInput={(e) =>
+                                updateAlarm(alarm.id, {
+                                    maxVolume:
+                                        Number(
+                                            (e.target as HTMLInputElement)
+                                                .value,
+                                        ) / 100,
+                                })
+                            }
+                            class="w-28 accent-orange-500"
+                        />
+                        <span class="text-xs themed-subtle-text w-10 text-right">
+                            {Math.round(alarm.maxVolume * 100)}%
+                        </span>
+                    </SettingsRow>
+                    <SettingsRow label="Voimistuminen">
+                        <select
+                            value={alarm.fadeInSeconds}
+                            onInput={(e) =>
+                                updateAlarm(alarm.id, {
+                                    fadeInSeconds: Number(
+                                        (e.target as HTMLSelectElement).value,
+                                    ),
+                                })
+                            }
+                            class="themed-field w-24 pl-2 pr-6 py-1 text-xs rounded"
+                        >
+                            <option value={0}>Heti</option>
+                            {[10, 30, 60, 120, 300].map((v) => (
+                                <option value={v}>
+                                    {v < 60 ? `${v} s` : `${v / 60} min`}
+                                </option>
+                            ))}
+                        </select>
+                    </SettingsRow>
+                    <SettingsRow label="Automaattinen lopetus">
+                        <select
+                            value={alarm.autoStopMinutes}
+                            onInput={(e) =>
+                                updateAlarm(alarm.id, {
+                                    autoStopMinutes: Number(
+                                        (e.target as HTMLSelectElement).value,
+                                    ),
+                                })
+                            }
+                            class="themed-field w-24 pl-2 pr-6 py-1 text-xs rounded"
+                        >
+                            <option value={0}>Ei koskaan</option>
+                            {[1, 2, 5, 10, 15, 30].map((v) => (
+                                <option value={v}>{v} min</option>
+                            ))}
+                        </select>
+                    </SettingsRow>
+                    {alarm.autoStopMinutes > 0 && (
+                        <SettingsRow label="Soita uudelleen" muted>
+                            <select
+                                value={alarm.refireMinutes}
+                                onInput={(e) =>
+                                    updateAlarm(alarm.id, {
+                                        refireMinutes: Number(
+                                            (e.target as HTMLSelectElement)
+                                                .value,
+                                        ),
+                                    })
+                                }
+                                class="themed-field w-24 pl-2 pr-6 py-1 text-xs rounded"
+                            >
+                                <option value={0}>Ei</option>
+                                {[5, 10, 15, 30, 60].map((v) => (
+                                    <option value={v}>{v} min päästä</option>
+                                ))}
+                            </select>
+                        </SettingsRow>
+                    )}
+
+                    {/* Snooze */}
+                    <SettingsRow label="Torkku">
+                        <select
+                            value={alarm.maxSnoozes}
+                            onInput={(e) =>
+                                updateAlarm(alarm.id, {
+                                    maxSnoozes: Number(
+                                        (e.target as HTMLSelectElement).value,
+                                    ),
+                                })
+                            }
+                            class="themed-field w-24 pl-2 pr-6 py-1 text-xs rounded"
+                        >
+                            <option value={0}>Ei torkkua</option>
+                            {Array.from({ length: 10 }, (_, i) => i + 1).map(
+                                (v) => (
+                                    <option value={v}>{v} kertaa</option>
+                                ),
+                            )}
+                        </select>
+                        {alarm.maxSnoozes > 0 && (
+                            <select
+                                value={alarm.snoozeMinutes}
+                                onInput={(e) =>
+                                    updateAlarm(alarm.id, {
+                                        snoozeMinutes: Number(
+                                            (e.target as HTMLSelectElement)
+                                                .value,
+                                        ),
+                                    })
+                                }
+                                class="themed-field w-20 pl-2 pr-6 py-1 text-xs rounded"
+                            >
+                                {Array.from(
+                                    { length: 30 },
+                                    (_, i) => i + 1,
+                                ).map((v) => (
+                                    <option value={v}>{v} min</option>
+                                ))}
+                            </select>
+                        )}
+                    </SettingsRow>
+
+                    {/* Dismiss challenge */}
+                    <SettingsRow label="Lopetustehtävä">
+                        <select
+                            value={alarm.challenge}
+                            onInput={(e) =>
+                                updateAlarm(alarm.id, {
+                                    challenge: (e.target as HTMLSelectElement)
+                                        .value as DismissChallengeType,
+                                })
+                            }
+                            class="themed-field w-40 pl-2 pr-6 py-1 text-xs rounded"
+                        >
+                            {Object.entries(challengeLabels).map(
+                                ([value, label]) => (
+                                    <option value={value}>{label}</option>
+                                ),
+                            )}
+                        </select>
+                    </SettingsRow>
+                    {alarm.challenge === "hold" && (
+                        <SettingsRow label="Pitoaika" muted>
+                            <select
+                                value={alarm.challengeHoldSeconds}
+                                onInput={(e) =>
+                                    updateAlarm(alarm.id, {
+                                        challengeHoldSeconds: Number(
+                                            (e.target as HTMLSelectElement)
+                                                .value,
+                                        ),
+                                    })
+                                }
+                                class="themed-field w-20 pl-2 pr-6 py-1 text-xs rounded"
+                            >
+                                {[3, 5, 10, 15, 20, 30].map((v) => (
+                                    <option value={v}>{v} s</option>
+                                ))}
+                            </select>
+                        </SettingsRow>
+                    )}
+
+                    {/* Spoken announcement */}
+                    <div class="pt-1 border-t border-[var(--border-subtle)]">
+                        <CheckboxRow
+                            id={`announce-${alarm.id}`}
+                            label="Puhuttu ilmoitus"
+                            checked={alarm.announceEnabled}
+                            onChange={() =>
+                                updateAlarm(alarm.id, {
+                                    announceEnabled: !alarm.announceEnabled,
+                                })
+                            }
+                        >
+                            <SettingsRow label="Viesti">
+                                <input
+                                    type="text"
+                                    value={alarm.announceText}
+                                    placeholder="esim. hampaiden pesu"
+                                    onInput={(e) =>
+                                        updateAlarm(alarm.id, {
+                                            announceText: (
+                                                e.target as HTMLInputElement
+                                            ).value,
+                                        })
+                                    }
+                                    class="themed-field w-40 px-2 py-1 rounded text-sm"
+                                />
+                            </SettingsRow>
+                            <Tooltip content="Testaa ilmoitus" position="right">
+                                <button
+                                    type="button"
+                                    onClick={() =>
+                                        speakMessage(
+                                            buildAlarmAnnouncement(
+                                                alarm,
+                                                new Date(),
+                                            ),
+                                        )
+                                    }
+                                    class="themed-secondary-button px-3 py-1 text-xs rounded transition-colors"
+                                >
+                                    🗣️ Kuuntele
+                                </button>
+                            </Tooltip>
+                        </CheckboxRow>
+                    </div>
+
                     {/* Pre-alarm */}
                     <div class="pt-1 border-t border-[var(--border-subtle)]">
                         <CheckboxRow
-                            id="pre-alarm"
+                            id={`pre-alarm-${alarm.id}`}
                             label="Väliaikaviestit"
-                            checked={preAlarmEnabled.value}
-                            onChange={togglePreAlarm}
+                            checked={alarm.preAlarmEnabled}
+                            onChange={() => togglePreAlarm(alarm)}
                         >
-                            <SettingsRow label="Väli">
-                                <select
-                                    value={preAlarmInterval.value}
-                                    onInput={handleIntervalChange}
-                                    class="themed-field w-20 pl-2 pr-6 py-1 text-xs rounded"
-                                >
-                                    {Array.from(
-                                        { length: 60 },
-                                        (_, i) => i + 1,
-                                    ).map((v) => (
-                                        <option value={v}>{v} min</option>
-                                    ))}
-                                </select>
+                            <PreAlarmScheduleSettings
+                                schedule={alarm.preAlarmSchedule}
+                                onChange={(preAlarmSchedule) =>
+                                    updateAlarm(alarm.id, {
+                                        preAlarmSchedule,
+                                    })
+                                }
+                            />
+                            {upcomingPreAlarms.length > 0 && (
+                                <p class="text-xs themed-subtle-text">
+                                    Seuraavat:{" "}
+                                    {upcomingPreAlarms
+                                        .slice(0, 8)
+                                        .map((time) =>
+                                            time.toLocaleTimeString("fi-FI", {
+                                                hour: "2-digit",
+                                                minute: "2-digit",
+                                            }),
+                                        )
+                                        .join(", ")}
+                                    {upcomingPreAlarms.length > 8 && " …"}
+                                </p>
+                            )}
+                            <SettingsRow label="Ääni">
+                                <SoundPicker
+                                    id={`pre-alarm-sound-${alarm.id}`}
+                                    value={alarm.preAlarmSound}
+                                    onChange={(preAlarmSound) =>
+                                        updateAlarm(alarm.id, {
+                                            preAlarmSound,
+                                        })
+                                    }
+                                />
                             </SettingsRow>
                             <Tooltip
                                 content="Testaa väliaikaviesti"
@@ -456,7 +1374,7 @@ export function AlarmSettings({ currentTime }: AlarmTimeInputProps) {
                             >
                                 <button
                                     type="button"
-                                    onClick={testPreAlarm}
+                                    onClick={() => testPreAlarm(alarm)}
                                     class="themed-secondary-button px-3 py-1 text-xs rounded transition-colors"
                                 >
                                     🔊{" "}
@@ -469,14 +1387,21 @@ export function AlarmSettings({ currentTime }: AlarmTimeInputProps) {
                     </div>
 
                     {/* Test alarm */}
-                    <div class="pt-1 border-t border-[var(--border-subtle)]">
+                    <div class="pt-1 border-t border-[var(--border-subtle)] flex gap-2">
                         <button
                             type="button"
-                            onClick={testAlarm}
-                            class="themed-secondary-button w-full px-4 py-2 text-sm rounded-lg transition-colors"
+                            onClick={() => testAlarm(alarm)}
+                            class="themed-secondary-button flex-1 px-4 py-2 text-sm rounded-lg transition-colors"
                         >
                             🔔 Testaa hälytys
                         </button>
+                        <button
+                            type="button"
+                            onClick={() => removeAlarm(alarm.id)}
+                            class="themed-secondary-button px-4 py-2 text-sm rounded-lg transition-colors"
+                        >
+                            🗑️ Poista
+                        </button>
                     </div>
                 </>
             )}
@@ -484,68 +1409,112 @@ export function AlarmSettings({ currentTime }: AlarmTimeInputProps) {
     );
 }
 
-// Computed signal for alarm hand angle (12-hour display)
-export const alarmHandAngle = computed(() => {
-    const hours = alarmHours.value;
-    const minutes = alarmMinutes.value;
-    return ((hours + minutes / 60) / 12) * 360;
-});
-
-// Hook to provide alarm hand drag functionality
-export function useAlarmHandDrag(svgRef: { current: SVGSVGElement | null }) {
-    const isDragging = useRef(false);
-
-    const getAngleFromEvent = (
-        clientX: number,
-        clientY: number,
-    ): number | null => {
-        const svg = svgRef.current;
-        if (!svg) return null;
+interface AlarmTimeInputProps {
+    currentTime: Signal<Date>;
+}
 
-        const rect = svg.getBoundingClientRect();
-        const centerX = rect.left + rect.width / 2;
-        const centerY = rect.top + rect.height / 2;
+export function AlarmSettings({ currentTime }: AlarmTimeInputProps) {
+    return (
+        <>
+            {alarms.value.map((alarm) => (
+                <AlarmRow
+                    key={alarm.id}
+                    alarm={alarm}
+                    currentTime={currentTime}
+                />
+            ))}
+            <button
+                type="button"
+                onClick={addAlarm}
+                class="themed-secondary-button w-full px-4 py-3 text-sm rounded-2xl transition-colors"
+            >
+                ➕ Lisää hälytys
+            </button>
+        </>
+    );
+}
 
-        const dx = clientX - centerX;
-        const dy = clientY - centerY;
+// Alarm hand angle (12-hour display)
+export function getAlarmHandAngle(alarm: Alarm) {
+    return (((alarm.hours % 12) + alarm.minutes / 60) / 12) * 360;
+}
 
-        // Calculate angle in degrees (0 = top, clockwise)
-        let angle = Math.atan2(dx, -dy) * (180 / Math.PI);
-        if (angle < 0) angle += 360;
+// Hook to provide alarm hand drag functionality
+export function useAlarmHandDrag(svgRef: { current: SVGSVGElement | null }) {
+    const draggedId = useRef<string | null>(null);
+    const previousAngle = useRef<number | null>(null);
+
+    const getAngleFromEvent = (clientX: number, clientY: number) =>
+        getClockAngle(svgRef.current, clientX, clientY);
+
+    // Pick the enabled alarm whose hand is closest to the given angle
+    const findClosestAlarm = (angle: number): Alarm | null => {
+        let closest: Alarm | null = null;
+        let closestDistance = Infinity;
+
+        for (const alarm of enabledAlarms.value) {
+            const diff = Math.abs(getAlarmHandAngle(alarm) - angle) % 360;
+            const distance = Math.min(diff, 360 - diff);
+            if (distance < closestDistance) {
+                closest = alarm;
+                closestDistance = distance;
+            }
+        }
 
-        return angle;
+        return closest;
     };
 
-    const updateAlarmFromAngle = (angle: number) => {
+    const updateAlarmFromAngle = (id: string, angle: number) => {
+        const alarm = alarms.value.find((a) => a.id === id);
+        if (!alarm) return;
+
         // Convert angle to hours (0-12) and minutes
         const totalHours = (angle / 360) * 12;
         const hours = Math.floor(totalHours);
         const minutes = Math.round((totalHours - hours) * 60);
 
-        alarmHours.value = hours % 12;
-        alarmMinutes.value = minutes % 60;
+        // Keep the half-day of the alarm, but flip it when the hand is
+        // dragged past 12 in either direction
+        let pm = alarm.hours >= 12;
+        if (
+            previousAngle.current !== null &&
+            Math.abs(angle - previousAngle.current) > 180
+        ) {
+            pm = !pm;
+        }
+        previousAngle.current = angle;
+
+        updateAlarm(id, {
+            hours: (hours % 12) + (pm ? 12 : 0),
+            minutes: minutes % 60,
+        });
     };
 
-    const handleStart = (clientX: number, clientY: number) => {
-        isDragging.current = true;
-        alarmHandDragging.value = true;
+    const handleStart = (clientX: number, clientY: number, id?: string) => {
         const angle = getAngleFromEvent(clientX, clientY);
-        if (angle !== null) {
-            updateAlarmFromAngle(angle);
-        }
+        if (angle === null) return;
+
+        const alarmId = id ?? findClosestAlarm(angle)?.id;
+        if (!alarmId) return;
+
+        draggedId.current = alarmId;
+        draggedAlarmId.value = alarmId;
+        previousAngle.current = null;
+        updateAlarmFromAngle(alarmId, angle);
     };
 
     const handleMove = (clientX: number, clientY: number) => {
-        if (!isDragging.current) return;
+        if (!draggedId.current) return;
         const angle = getAngleFromEvent(clientX, clientY);
         if (angle !== null) {
-            updateAlarmFromAngle(angle);
+            updateAlarmFromAngle(draggedId.current, angle);
         }
     };
 
     const handleEnd = () => {
-        isDragging.current = false;
-        alarmHandDragging.value = false;
+        draggedId.current = null;
+        draggedAlarmId.value = null;
+        previousAngle.current = null;
     };
 
     useEffect(() => {
@@ -585,22 +1554,24 @@ export function useAlarmHandDrag(svgRef: { current: SVGSVGElement | null }) {
 }
 
 interface AlarmHandProps {
+    alarm: Alarm;
     svgRef: { current: SVGSVGElement | null };
 }
 
-export function AlarmHand({ svgRef }: AlarmHandProps) {
+export function AlarmHand({ alarm, svgRef }: AlarmHandProps) {
     const { handleStart } = useAlarmHandDrag(svgRef);
+    const dragging = draggedAlarmId.value === alarm.id;
 
     const onMouseDown = (e: MouseEvent) => {
         e.preventDefault();
-        handleStart(e.clientX, e.clientY);
+        handleStart(e.clientX, e.clientY, alarm.id);
     };
 
     const onTouchStart = (e: TouchEvent) => {
         e.preventDefault();
         const touch = e.touches[0];
         if (touch) {
-            handleStart(touch.clientX, touch.clientY);
+            handleStart(touch.clientX, touch.clientY, alarm.id);
         }
     };
 
@@ -614,38 +1585,77 @@ export function AlarmHand({ svgRef }: AlarmHandProps) {
                 x1="50"
                 y1="50"
                 x2="50"
-                y2={alarmHandDragging.value ? "15" : "35"}
-                stroke="#f97316"
-                stroke-width={alarmHandDragging.value ? "2" : "1"}
+                y2={dragging ? "15" : "35"}
+                stroke={nightAccent(alarm.color)}
+                stroke-width={dragging ? "2" : "1"}
                 stroke-linecap="round"
-                transform={`rotate(${alarmHandAngle.value} 50 50)`}
+                transform={`rotate(${getAlarmHandAngle(alarm)} 50 50)`}
             />
+            {/* Half-day knob: hollow for AM, filled for PM */}
+            {!alarm.twiceADay && (
+                <circle
+                    cx="50"
+                    cy={dragging ? "15" : "35"}
+                    r={dragging ? "2" : "1.2"}
+                    fill={
+                        alarm.hours >= 12
+                            ? nightAccent(alarm.color)
+                            : "var(--clock-face)"
+                    }
+                    stroke={nightAccent(alarm.color)}
+                    stroke-width="0.6"
+                    transform={`rotate(${getAlarmHandAngle(alarm)} 50 50)`}
+                />
+            )}
+            {dragging && (
+                <text
+                    x="50"
+                    y="64"
+                    text-anchor="middle"
+                    dominant-baseline="central"
+                    font-size="4"
+                    font-family="Arial, sans-serif"
+                    font-weight="bold"
+                    fill={nightAccent(alarm.color)}
+                >
+                    {formatAlarmTime(alarm)}
+                </text>
+            )}
         </g>
     );
 }
 
-export function AlarmFlashBackground() {
+interface AlarmHandsProps {
+    svgRef: { current: SVGSVGElement | null };
+}
+
+export function AlarmHands({ svgRef }: AlarmHandsProps) {
+    return (
+        <>
+            {enabledAlarms.value.map((alarm) => (
+                <AlarmHand key={alarm.id} alarm={alarm} svgRef={svgRef} />
+            ))}
+        </>
+    );
+}
+
+interface AlarmFlashBackgroundProps {
+    active: boolean;
+}
+
+export function AlarmFlashBackground({ active }: AlarmFlashBackgroundProps) {
     useEffect(() => {
-        if (!alarmTriggered.value) {
+        if (!active) {
             document.body.classList.remove("alarm-flash-background");
             return;
         }
 
         document.body.classList.add("alarm-flash-background");
 
-        const handleDismiss = () => {
-            dismissAlarm();
-        };
-
-        document.addEventListener("click", handleDismiss);
-        document.addEventListener("touchstart", handleDismiss);
-
         return () => {
             document.body.classList.remove("alarm-flash-background");
-            document.removeEventListener("click", handleDismiss);
-            document.removeEventListener("touchstart", handleDismiss);
         };
-    }, [alarmTriggered.value]);
+    }, [active]);
 
     return null;
 }
@@ -0,0 +1,302 @@
+import { signal } from "@preact/signals";
+import { useEffect, useMemo, useRef, useState } from "preact/hooks";
+import { getClockAngle, useDocumentDrag } from "./utils";
+import { nightAccent } from "./night";
+import { displayTimeZone, toZonedTime } from "./timezone";
+
+export type DismissChallengeType = "none" | "math" | "word" | "clock" | "hold";
+
+export const challengeLabels: Record<DismissChallengeType, string> = {
+    none: "Ei tehtävää",
+    math: "Laskutehtävä",
+    word: "Kirjoita sana",
+    clock: "Vedä viisari aikaan",
+    hold: "Pidä painettuna",
+};
+
+const challengeWords = [
+    "aamupala",
+    "hammasharja",
+    "herätyskello",
+    "auringonnousu",
+    "koulureppu",
+    "villasukat",
+    "kaurapuuro",
+    "appelsiini",
+    "sateenvarjo",
+    "polkupyörä",
+];
+
+function randomInt(min: number, max: number) {
+    return min + Math.floor(Math.random() * (max - min + 1));
+}
+
+// Hand the user must drag to the current time on the analog face while the
+// clock challenge is active
+export const clockChallenge = signal<{
+    angle: number;
+    color: string;
+    solved: boolean;
+} | null>(null);
+
+// Allowed distance from the hour hand, 10 degrees is 20 minutes
+const CLOCK_CHALLENGE_TOLERANCE = 10;
+
+// Angle of the hour hand, which shows the display zone's time
+function currentHourAngle() {
+    const now = toZonedTime(new Date(), displayTimeZone.value);
+    return (((now.getHours() % 12) + now.getMinutes() / 60) / 12) * 360;
+}
+
+interface ChallengeProps {
+    onSolved: () => void;
+}
+
+function MathChallenge({ onSolved }: ChallengeProps) {
+    const problem = useMemo(() => {
+        if (Math.random() < 0.5) {
+            const a = randomInt(12, 49);
+            const b = randomInt(12, 49);
+            return { text: `${a} + ${b}`, answer: a + b };
+        }
+        const a = randomInt(3, 9);
+        const b = randomInt(3, 12);
+        return { text: `${a} × ${b}`, answer: a * b };
+    }, []);
+
+    const handleInput = (e: Event) => {
+        const target = e.target as HTMLInputElement;
+        if (Number(target.value) === problem.answer) {
+            onSolved();
+        }
+    };
+
+    return (
+        <div class="flex flex-col items-center gap-2">
+            <div class="text-3xl font-bold font-mono">{problem.text} =</div>
+            <input
+                type="number"
+                inputMode="numeric"
+                autoFocus
+                onInput={handleInput}
+                class="w-32 px-3 py-2 rounded-lg text-2xl text-center text-gray-900"
+            />
+        </div>
+    );
+}
+
+function WordChallenge({ onSolved }: ChallengeProps) {
+    const word = useMemo(
+        () => challengeWords[randomInt(0, challengeWords.length - 1)]!,
+        [],
+    );
+
+    const handleInput = (e: Event) => {
+        const target = e.target as HTMLInputElement;
+        if (target.value.trim().toLowerCase() === word) {
+            onSolved();
+        }
+    };
+
+    return (
+        <div class="flex flex-col items-center gap-2">
+            <div class="text-3xl font-bold tracking-widest uppercase">
+                {word}
+            </div>
+            <input
+                type="text"
+                autoFocus
+                autoComplete="off"
+                autoCapitalize="off"
+                onInput={handleInput}
+                class="w-56 px-3 py-2 rounded-lg text-xl text-center text-gray-900"
+            />
+        </div>
+    );
+}
+
+interface HoldChallengeProps extends ChallengeProps {
+    seconds: number;
+}
+
+function HoldChallenge({ seconds, onSolved }: HoldChallengeProps) {
+    const [progress, setProgress] = useState(0);
+    const intervalId = useRef<ReturnType<typeof setInterval> | null>(null);
+
+    const stop = () => {
+        if (intervalId.current !== null) {
+            clearInterval(intervalId.current);
+            intervalId.current = null;
+        }
+        setProgress(0);
+    };
+
+    const start = (e: Event) => {
+        e.preventDefault();
+        stop();
+        const startedAt = Date.now();
+        intervalId.current = setInterval(() => {
+            const value = (Date.now() - startedAt) / (seconds * 1000);
+            if (value >= 1) {
+                stop();
+                onSolved();
+            } else {
+                setProgress(value);
+            }
+        }, 50);
+    };
+
+    useEffect(() => stop, []);
+
+    return (
+        <button
+            type="button"
+            onMouseDown={start}
+            onMouseUp={stop}
+            onMouseLeave={stop}
+            onTouchStart={start}
+            onTouchEnd={stop}
+            onTouchCancel={stop}
+            class="relative overflow-hidden w-64 px-4 py-6 rounded-2xl text-xl font-bold bg-white text-gray-900 shadow-lg select-none"
+        >
+            <span
+                class="absolute inset-y-0 left-0 bg-orange-400"
+                style={{ width: `${progress * 100}%` }}
+            />
+            <span class="relative">Pidä pohjassa {seconds} s</span>
+        </button>
+    );
+}
+
+interface ClockChallengeProps extends ChallengeProps {
+    color: string;
+}
+
+function ClockChallenge({ color, onSolved }: ClockChallengeProps) {
+    useEffect(() => {
+        // Start at least a quarter turn away from the right time
+        const offset = randomInt(90, 270);
+        clockChallenge.value = {
+            angle: (currentHourAngle() + offset) % 360,
+            color,
+            solved: false,
+        };
+        return () => {
+            clockChallenge.value = null;
+        };
+    }, []);
+
+    const solved = clockChallenge.value?.solved ?? false;
+
+    useEffect(() => {
+        if (solved) {
+            onSolved();
+        }
+    }, [solved]);
+
+    return (
+        <div class="text-lg font-bold text-center">
+            Vedä paksu viisari kellotauluun nykyisen tunnin kohdalle
+        </div>
+    );
+}
+
+interface DismissChallengeProps extends ChallengeProps {
+    type: DismissChallengeType;
+    holdSeconds: number;
+    color: string;
+}
+
+export function DismissChallenge({
+    type,
+    holdSeconds,
+    color,
+    onSolved,
+}: DismissChallengeProps) {
+    switch (type) {
+        case "math":
+            return <MathChallenge onSolved={onSolved} />;
+        case "word":
+            return <WordChallenge onSolved={onSolved} />;
+        case "hold":
+            return <HoldChallenge seconds={holdSeconds} onSolved={onSolved} />;
+        case "clock":
+            return <ClockChallenge color={color} onSolved={onSolved} />;
+        case "none":
+            return null;
+    }
+}
+
+interface ClockChallengeHandProps {
+    svgRef: { current: SVGSVGElement | null };
+}
+
+// Draggable hand for the clock challenge. Covers the whole face so that the
+// alarm hands can't be moved while the challenge is active.
+export function ClockChallengeHand({ svgRef }: ClockChallengeHandProps) {
+    const dragging = useRef(false);
+
+    const moveTo = (clientX: number, clientY: number) => {
+        const angle = getClockAngle(svgRef.current, clientX, clientY);
+        if (angle !== null && clockChallenge.value) {
+            clockChallenge.value = { ...clockChallenge.value, angle };
+        }
+    };
+
+    const handleEnd = () => {
+        if (!dragging.current) return;
+        dragging.current = false;
+
+        const challenge = clockChallenge.value;
+        if (!challenge) return;
+
+        const diff = Math.abs(challenge.angle - currentHourAngle()) % 360;
+        if (Math.min(diff, 360 - diff) <= CLOCK_CHALLENGE_TOLERANCE) {
+            clockChallenge.value = { ...challenge, solved: true };
+        }
+    };
+
+    useDocumentDrag((clientX, clientY) => {
+        if (dragging.current) moveTo(clientX, clientY);
+    }, handleEnd);
+
+    const challenge = clockChallenge.value;
+    if (!challenge) {
+        return null;
+    }
+
+    const onMouseDown = (e: MouseEvent) => {
+        e.preventDefault();
+        dragging.current = true;
+        moveTo(e.clientX, e.clientY);
+    };
+
+    const onTouchStart = (e: TouchEvent) => {
+        e.preventDefault();
+        const touch = e.touches[0];
+        if (touch) {
+            dragging.current = true;
+            moveTo(touch.clientX, touch.clientY);
+        }
+    };
+
+    return (
+        <g
+            style={{ cursor: "pointer" }}
+            onMouseDown={onMouseDown}
+            onTouchStart={onTouchStart}
+        >
+            <circle cx="50" cy="50" r="48" fill="transparent" />
+            <line
+                x1="50"
+                y1="50"
+                x2="50"
+                y2="22"
+                stroke={nightAccent(challenge.color)}
+                stroke-width="4"
+                stroke-linecap="round"
+                transform={`rotate(${challenge.angle} 50 50)`}
+            />
+        </g>
+    );
+}
@@ -0,0 +1,276 @@
+import { describe, expect, it } from "vitest";
+import {
+    Codec,
+    arrayCodec,
+    booleanCodec,
+    enumCodec,
+    isRecord,
+    jsonCodec,
+    nullableCodec,
+    numberCodec,
+    stringCodec,
+    timeOfDayCodec,
+    withDefaults,
+} from "./codec";
+import { AlarmRepeat, repeatCodec } from "./recurrence";
+import { PreAlarmSchedule, preAlarmScheduleCodec } from "./prealarm";
+
+function roundTrip<T>(codec: Codec<T>, value: T) {
+    return codec.parse(codec.stringify(value));
+}
+
+describe("isRecord", () => {
+    it("accepts plain objects only", () => {
+        expect(isRecord({})).toBe(true);
+        expect(isRecord([])).toBe(false);
+        expect(isRecord(null)).toBe(false);
+        expect(isRecord("{}")).toBe(false);
+    });
+});
+
+describe("jsonCodec", () => {
+    const codec = jsonCodec((value) =>
+        isRecord(value) && typeof value.a === "number"
+            ? { a: value.a }
+            : undefined,
+    );
+
+    it("round-trips valid values", () => {
+        expect(roundTrip(codec, { a: 1 })).toEqual({ a: 1 });
+    });
+
+    it("rejects broken JSON and invalid values", () => {
+        expect(codec.parse("{a:1")).toBeUndefined();
+        expect(codec.parse('{"a":"1"}')).toBeUndefined();
+    });
+});
+
+describe("booleanCodec", () => {
+    it("round-trips both values", () => {
+        expect(roundTrip(booleanCodec, true)).toBe(true);
+        expect(roundTrip(booleanCodec, false)).toBe(false);
+    });
+
+    it("rejects other values", () => {
+        expect(booleanCodec.parse("1")).toBeUndefined();
+        expect(booleanCodec.parse('"true"')).toBeUndefined();
+        expect(booleanCodec.validate(null)).toBeUndefined();
+    });
+});
+
+describe("stringCodec", () => {
+    it("round-trips strings with special characters", () => {
+        expect(roundTrip(stringCodec, 'Herätys "aamu" & ilta')).toBe(
+            'Herätys "aamu" & ilta',
+        );
+    });
+
+    it("rejects other values", () => {
+        expect(stringCodec.parse("abc")).toBeUndefined();
+        expect(stringCodec.parse("12")).toBeUndefined();
+    });
+});
+
+describe("numberCodec", () => {
+    const codec = numberCodec(0, 10);
+    const integerCodec = numberCodec(1, 5, { integer: true });
+
+    it("round-trips numbers in range", () => {
+        expect(roundTrip(codec, 0)).toBe(0);
+        expect(roundTrip(codec, 2.5)).toBe(2.5);
+        expect(roundTrip(integerCodec, 5)).toBe(5);
+    });
+
+    it("rejects out of range, non-finite and non-numbers", () => {
+        expect(codec.parse("11")).toBeUndefined();
+        expect(codec.parse("-1")).toBeUndefined();
+        expect(codec.parse("abc")).toBeUndefined();
+        expect(codec.parse('"5"')).toBeUndefined();
+        expect(codec.validate(NaN)).toBeUndefined();
+        expect(codec.validate(Infinity)).toBeUndefined();
+        expect(integerCodec.parse("2.5")).toBeUndefined();
+    });
+});
+
+describe("enumCodec", () => {
+    const codec = enumCodec(["light", "dark"] as const);
+
+    it("round-trips values without quotes", () => {
+        expect(codec.stringify("dark")).toBe("dark");
+        expect(roundTrip(codec, "dark")).toBe("dark");
+    });
+
+    it("reads quoted values from older links", () => {
+        expect(codec.parse('"light"')).toBe("light");
+    });
+
+    it("rejects unknown values", () => {
+        expect(codec.parse("sepia")).toBeUndefined();
+        expect(codec.validate(1)).toBeUndefined();
+    });
+});
+
+describe("timeOfDayCodec", () => {
+    it("round-trips times without quotes", () => {
+        expect(timeOfDayCodec.stringify("07:30")).toBe("07:30");
+        expect(roundTrip(timeOfDayCodec, "23:59")).toBe("23:59");
+        expect(timeOfDayCodec.parse('"00:00"')).toBe("00:00");
+    });
+
+    it("rejects impossible times", () => {
+        expect(timeOfDayCodec.parse("24:00")).toBeUndefined();
+        expect(timeOfDayCodec.parse("7:30")).toBeUndefined();
+        expect(timeOfDayCodec.parse("12:60")).toBeUndefined();
+    });
+});
+
+describe("nullableCodec", () => {
+    const codec = nullableCodec(timeOfDayCodec);
+
+    it("round-trips null and values", () => {
+        expect(roundTrip(codec, null)).toBeNull();
+        expect(roundTrip(codec, "06:00")).toBe("06:00");
+        expect(codec.validate(null)).toBeNull();
+    });
+
+    it("rejects invalid values", () => {
+        expect(codec.parse("25:00")).toBeUndefined();
+        expect(codec.validate(undefined)).toBeUndefined();
+    });
+});
+
+describe("arrayCodec", () => {
+    const codec = arrayCodec(numberCodec(0, 9, { integer: true }).validate);
+
+    it("round-trips lists", () => {
+        expect(roundTrip(codec, [1, 2, 3])).toEqual([1, 2, 3]);
+        expect(roundTrip(codec, [])).toEqual([]);
+    });
+
+    it("drops invalid items", () => {
+        expect(codec.parse('[1, "2", 30, null, 4]')).toEqual([1, 4]);
+    });
+
+    it("rejects values that are not lists", () => {
+        expect(codec.parse('{"0":1}')).toBeUndefined();
+        expect(codec.parse("1")).toBeUndefined();
+    });
+});
+
+describe("withDefaults", () => {
+    const defaults = {
+        label: "Herätys",
+        enabled: false,
+        volume: 1,
+        days: [1, 2],
+        zone: null as string | null,
+    };
+
+    it("keeps saved fields of the right type", () => {
+        expect(
+            withDefaults(defaults, {
+                label: "Töihin",
+                enabled: true,
+                volume: 0.5,
+                days: [3],
+                zone: "Europe/Helsinki",
+            }),
+        ).toEqual({
+            label: "Töihin",
+            enabled: true,
+            volume: 0.5,
+            days: [3],
+            zone: "Europe/Helsinki",
+        });
+    });
+
+    it("fills in missing fields and replaces ones of the wrong type", () => {
+        expect(
+            withDefaults(defaults, {
+                label: 5,
+                enabled: "yes",
+                volume: NaN,
+                days: "1,2",
+            }),
+        ).toEqual(defaults);
+    });
+
+    it("rejects values that are not objects", () => {
+        expect(withDefaults(defaults, [defaults])).toBeUndefined();
+        expect(withDefaults(defaults, null)).toBeUndefined();
+    });
+});
+
+describe("repeatCodec", () => {
+    it("round-trips every rule type", () => {
+        const repeats: AlarmRepeat[] = [
+            { type: "once" },
+            { type: "once", date: "2026-01-31" },
+            { type: "weekdays" },
+            { type: "weekends" },
+            { type: "days", days: [1, 3, 5] },
+            { type: "everyNDays", interval: 3, startDate: "2026-01-01" },
+        ];
+        for (const repeat of repeats) {
+            expect(roundTrip(repeatCodec, repeat)).toEqual(repeat);
+        }
+    });
+
+    it("replaces broken fields with defaults", () => {
+        const days = repeatCodec.parse('{"type":"days"}');
+        expect(days?.type).toBe("days");
+        expect(days?.type === "days" && days.days.length).toBe(1);
+
+        expect(repeatCodec.parse('{"type":"days","days":[1,9,"2",1]}')).toEqual(
+            { type: "days", days: [1] },
+        );
+
+        const everyN = repeatCodec.parse(
+            '{"type":"everyNDays","interval":1e12,"startDate":"nope"}',
+        );
+        expect(everyN?.type === "everyNDays" && everyN.interval).toBe(2);
+        expect(
+            everyN?.type === "everyNDays" &&
+                /^\d{4}-\d{2}-\d{2}$/.test(everyN.startDate),
+        ).toBe(true);
+    });
+
+    it("rejects unknown rule types", () => {
+        expect(repeatCodec.parse('{"type":"hourly"}')).toBeUndefined();
+        expect(repeatCodec.parse('"weekdays"')).toBeUndefined();
+    });
+});
+
+describe("preAlarmScheduleCodec", () => {
+    it("round-trips every schedule type", () => {
+        const schedules: PreAlarmSchedule[] = [
+            { type: "interval", interval: 10, startMinutes: 120 },
+            { type: "offsets", offsets: [30, 5] },
+            { type: "tapering", startMinutes: 360 },
+        ];
+        for (const schedule of schedules) {
+            expect(roundTrip(preAlarmScheduleCodec, schedule)).toEqual(
+                schedule,
+            );
+        }
+    });
+
+    it("bounds the interval and start so offsets stay small", () => {
+        expect(
+            preAlarmScheduleCodec.parse(
+                '{"type":"interval","interval":0,"startMinutes":1e12}',
+            ),
+        ).toEqual({ type: "interval", interval: 5, startMinutes: 60 });
+        expect(
+            preAlarmScheduleCodec.parse(
+                '{"type":"offsets","offsets":[-5,0.5,"10",15]}',
+            ),
+        ).toEqual({ type: "offsets", offsets: [15] });
+    });
+
+    it("rejects unknown schedule types", () => {
+        expect(
+            preAlarmScheduleCodec.parse('{"type":"random"}'),
+        ).toBeUndefined();
+    });
+});
@@ -0,0 +1,133 @@
+// Codecs turn settings to and from URL parameters. Every decode checks the
+// value, so a hand-edited or outdated link falls back to the default instead
+// of putting e.g. a string into the angle math.
+
+export interface Codec<T> {
+    // Value of a URL parameter, undefined when it is not valid
+    parse(raw: string): T | undefined;
+    stringify(value: T): string;
+    // Check a value that is already parsed from JSON, e.g. imported settings
+    validate(value: unknown): T | undefined;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseJson(raw: string): unknown {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return undefined;
+    }
+}
+
+// JSON encoded value checked with validate
+export function jsonCodec<T>(
+    validate: (value: unknown) => T | undefined,
+): Codec<T> {
+    return {
+        parse: (raw) => validate(parseJson(raw)),
+        stringify: (value) => JSON.stringify(value),
+        validate,
+    };
+}
+
+export const booleanCodec = jsonCodec((value) =>
+    typeof value === "boolean" ? value : undefined,
+);
+
+export const stringCodec = jsonCodec((value) =>
+    typeof value === "string" ? value : undefined,
+);
+
+export function numberCodec(
+    min: number,
+    max: number,
+    { integer = false } = {},
+): Codec<number> {
+    return jsonCodec((value) =>
+        typeof value === "number" &&
+        Number.isFinite(value) &&
+        value >= min &&
+        value <= max &&
+        (!integer || Number.isInteger(value))
+            ? value
+            : undefined,
+    );
+}
+
+// One of the given strings. Written without JSON quotes to keep links short,
+// quoted values from older links are still read.
+export function enumCodec<T extends string>(values: readonly T[]): Codec<T> {
+    const validate = (value: unknown) =>
+        values.includes(value as T) ? (value as T) : undefined;
+    return {
+        parse: (raw) => validate(raw) ?? validate(parseJson(raw)),
+        stringify: (value) => value,
+        validate,
+    };
+}
+
+// "HH:MM", written without quotes like enums
+export const timeOfDayCodec: Codec<string> = (() => {
+    const validate = (value: unknown) =>
+        typeof value === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(value)
+            ? value
+            : undefined;
+    return {
+        parse: (raw) => validate(raw) ?? validate(parseJson(raw)),
+        stringify: (value) => value,
+        validate,
+    };
+})();
+
+export function nullableCodec<T>(codec: Codec<T>): Codec<T | null> {
+    const validate = (value: unknown) =>
+        value === null ? null : codec.validate(value);
+    return {
+        parse: (raw) => (raw === "null" ? null : codec.parse(raw)),
+        stringify: (value) =>
+            value === null ? "null" : codec.stringify(value),
+        validate,
+    };
+}
+
+// List where invalid items are dropped
+export function arrayCodec<T>(
+    validateItem: (value: unknown) => T | undefined,
+): Codec<T[]> {
+    return jsonCodec((value) => {
+        if (!Array.isArray(value)) return undefined;
+        return value
+            .map(validateItem)
+            .filter((item): item is T => item !== undefined);
+    });
+}
+
+// Object with the fields of defaults. Saved fields of the wrong type are
+// replaced by the default, so objects saved by older versions get the fields
+// added since.
+export function withDefaults<T extends object>(
+    defaults: T,
+    value: unknown,
+): T | undefined {
+    if (!isRecord(value)) return undefined;
+
+    const result = { ...defaults };
+    for (const key of Object.keys(defaults) as (keyof T & string)[]) {
+        const saved = value[key];
+        const fallback = defaults[key];
+        const sameType =
+            fallback === null || saved === null
+                ? saved === null || typeof saved === "string" || isRecord(saved)
+                : Array.isArray(fallback)
+                  ? Array.isArray(saved)
+                  : typeof saved === typeof fallback &&
+                    (typeof saved !== "number" || Number.isFinite(saved));
+        if (saved !== undefined && sameType) {
+            result[key] = saved as T[keyof T & string];
+        }
+    }
+    return result;
+}
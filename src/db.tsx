@@ -0,0 +1,78 @@
+// Minimal promise wrapper for the app's IndexedDB database
+
+const DB_NAME = "kello";
+const DB_VERSION = 2;
+
+export type StoreName = "sounds" | "history";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains("sounds")) {
+                db.createObjectStore("sounds", { keyPath: "id" });
+            }
+            if (!db.objectStoreNames.contains("history")) {
+                db.createObjectStore("history", { keyPath: "id" });
+            }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+
+    return dbPromise;
+}
+
+async function withStore<T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = run(
+            db.transaction(storeName, mode).objectStore(storeName),
+        );
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function getItem<T>(storeName: StoreName, key: string) {
+    return withStore<T | undefined>(storeName, "readonly", (store) =>
+        store.get(key),
+    );
+}
+
+export function getAllItems<T>(storeName: StoreName) {
+    return withStore<T[]>(storeName, "readonly", (store) => store.getAll());
+}
+
+export async function putItem<T>(storeName: StoreName, item: T) {
+    await withStore(storeName, "readwrite", (store) => store.put(item));
+}
+
+export async function clearItems(storeName: StoreName) {
+    await withStore(storeName, "readwrite", (store) => store.clear());
+}
+
+export async function deleteItem(storeName: StoreName, key: string) {
+    await withStore(storeName, "readwrite", (store) => store.delete(key));
+}
+
+// Delete the items whose key sorts before the given key
+export async function deleteItemsBefore(storeName: StoreName, key: string) {
+    await withStore(storeName, "readwrite", (store) =>
+        store.delete(IDBKeyRange.upperBound(key, true)),
+    );
+}
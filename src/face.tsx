@@ -0,0 +1,669 @@
+import { SettingsCard, SettingsRow, CheckboxRow } from "./SettingsCard";
+import { urlSignal } from "./utils";
+import { enumCodec, isRecord, jsonCodec, withDefaults } from "./codec";
+import { URL_SCHEMA_VERSION, VERSION_PARAM } from "./migrations";
+
+// Layers and colours of the analog clock face. Presets are just complete
+// faces, so a face edited in the designer is saved and shared in the URL the
+// same way as a preset.
+
+export type HourMarkerStyle = "line" | "block" | "dot" | "none";
+export type NumeralStyle = "arabic" | "roman" | "none";
+export type FaceFont = "sans" | "serif" | "geometric";
+export type SecondHandStyle = "classic" | "railway" | "none";
+export type FaceColor = keyof typeof faceColorVariables;
+
+export interface ClockFace {
+    hourMarkers: HourMarkerStyle;
+    minuteMarkers: boolean;
+    numerals: NumeralStyle;
+    // Only 12, 3, 6 and 9
+    quarterNumerals: boolean;
+    hour24Numbers: boolean;
+    minuteNumbers: boolean;
+    font: FaceFont;
+    secondHand: SecondHandStyle;
+    // Overrides for the theme's --clock-* colours
+    colors: Partial<Record<FaceColor, string>>;
+}
+
+const faceColorVariables = {
+    face: "--clock-face",
+    ring: "--clock-ring",
+    hourMarker: "--clock-hour-marker",
+    minuteMarker: "--clock-minute-marker",
+    hourNumber: "--clock-hour-number",
+    hour24Number: "--clock-hour24-number",
+    minuteNumber: "--clock-minute-number",
+    hourHand: "--clock-hour-hand",
+    minuteHand: "--clock-minute-hand",
+    secondHand: "--clock-second-hand",
+    center: "--clock-center",
+};
+
+const faceColorLabels: Record<FaceColor, string> = {
+    face: "Taulu",
+    ring: "Reuna",
+    hourMarker: "Tuntimerkit",
+    minuteMarker: "Minuuttimerkit",
+    hourNumber: "Numerot",
+    hour24Number: "24 h numerot",
+    minuteNumber: "Minuuttinumerot",
+    hourHand: "Tuntiosoitin",
+    minuteHand: "Minuuttiosoitin",
+    secondHand: "Sekuntiosoitin",
+    center: "Keskiö",
+};
+
+export type FacePreset =
+    | "classic"
+    | "minimal"
+    | "roman"
+    | "bauhaus"
+    | "railway"
+    | "highContrast";
+
+export const facePresets: Record<FacePreset, ClockFace> = {
+    classic: {
+        hourMarkers: "line",
+        minuteMarkers: true,
+        numerals: "arabic",
+        quarterNumerals: false,
+        hour24Numbers: true,
+        minuteNumbers: true,
+        font: "sans",
+        secondHand: "classic",
+        colors: {},
+    },
+    minimal: {
+        hourMarkers: "line",
+        minuteMarkers: false,
+        numerals: "none",
+        quarterNumerals: false,
+        hour24Numbers: false,
+        minuteNumbers: false,
+        font: "sans",
+        secondHand: "classic",
+        colors: {},
+    },
+    roman: {
+        hourMarkers: "line",
+        minuteMarkers: true,
+        numerals: "roman",
+        quarterNumerals: false,
+        hour24Numbers: false,
+        minuteNumbers: false,
+        font: "serif",
+        secondHand: "classic",
+        colors: {},
+    },
+    bauhaus: {
+        hourMarkers: "dot",
+        minuteMarkers: false,
+        numerals: "arabic",
+        quarterNumerals: true,
+        hour24Numbers: false,
+        minuteNumbers: false,
+        font: "geometric",
+        secondHand: "classic",
+        colors: { secondHand: "#f2b705", center: "#1d3557" },
+    },
+    railway: {
+        hourMarkers: "block",
+        minuteMarkers: true,
+        numerals: "none",
+        quarterNumerals: false,
+        hour24Numbers: false,
+        minuteNumbers: false,
+        font: "sans",
+        secondHand: "railway",
+        colors: {},
+    },
+    highContrast: {
+        hourMarkers: "block",
+        minuteMarkers: true,
+        numerals: "arabic",
+        quarterNumerals: false,
+        hour24Numbers: false,
+        minuteNumbers: false,
+        font: "sans",
+        secondHand: "classic",
+        colors: {
+            face: "#000000",
+            ring: "#ffffff",
+            hourMarker: "#ffffff",
+            minuteMarker: "#ffffff",
+            hourNumber: "#ffffff",
+            hourHand: "#ffffff",
+            minuteHand: "#ffffff",
+            secondHand: "#ffff00",
+            center: "#ffffff",
+        },
+    },
+};
+
+const facePresetLabels: Record<FacePreset, string> = {
+    classic: "Perus",
+    minimal: "Minimalistinen",
+    roman: "Roomalainen",
+    bauhaus: "Bauhaus",
+    railway: "Asemakello",
+    highContrast: "Suuri kontrasti",
+};
+
+const faceFonts: Record<FaceFont, { label: string; family: string }> = {
+    sans: { label: "Arial", family: "Arial, sans-serif" },
+    serif: { label: "Antiikva", family: "Georgia, 'Times New Roman', serif" },
+    geometric: {
+        label: "Geometrinen",
+        family: "Futura, 'Century Gothic', 'Avenir Next', sans-serif",
+    },
+};
+
+const romanNumerals = [
+    "XII",
+    "I",
+    "II",
+    "III",
+    "IIII",
+    "V",
+    "VI",
+    "VII",
+    "VIII",
+    "IX",
+    "X",
+    "XI",
+];
+
+const hourMarkerCodec = enumCodec<HourMarkerStyle>([
+    "line",
+    "block",
+    "dot",
+    "none",
+]);
+const numeralCodec = enumCodec<NumeralStyle>(["arabic", "roman", "none"]);
+const fontCodec = enumCodec(Object.keys(faceFonts) as FaceFont[]);
+const secondHandCodec = enumCodec<SecondHandStyle>([
+    "classic",
+    "railway",
+    "none",
+]);
+const colorCodec = jsonCodec((value) =>
+    typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value)
+        ? value
+        : undefined,
+);
+
+function normalizeFace(saved: unknown): ClockFace | undefined {
+    const face = withDefaults(facePresets.classic, saved);
+    if (!face) return undefined;
+
+    const colors: ClockFace["colors"] = {};
+    if (isRecord(face.colors)) {
+        for (const color of Object.keys(faceColorVariables) as FaceColor[]) {
+            const value = colorCodec.validate(face.colors[color]);
+            if (value) colors[color] = value;
+        }
+    }
+
+    const classic = facePresets.classic;
+    return {
+        ...face,
+        hourMarkers:
+            hourMarkerCodec.validate(face.hourMarkers) ?? classic.hourMarkers,
+        numerals: numeralCodec.validate(face.numerals) ?? classic.numerals,
+        font: fontCodec.validate(face.font) ?? classic.font,
+        secondHand:
+            secondHandCodec.validate(face.secondHand) ?? classic.secondHand,
+        colors,
+    };
+}
+
+const clockFaceCodec = jsonCodec(normalizeFace);
+
+export const clockFace = urlSignal<ClockFace>(
+    "face",
+    facePresets.classic,
+    clockFaceCodec,
+);
+
+function updateFace(patch: Partial<ClockFace>) {
+    clockFace.value = { ...clockFace.value, ...patch };
+}
+
+function getActivePreset(face: ClockFace): FacePreset | null {
+    const json = JSON.stringify(face);
+    const match = Object.entries(facePresets).find(
+        ([, preset]) => JSON.stringify(preset) === json,
+    );
+    return match ? (match[0] as FacePreset) : null;
+}
+
+// Inline CSS variables for the face's colour overrides, set on the svg
+export function getFaceColorStyle(face: ClockFace) {
+    const style: Record<string, string> = {};
+    for (const [color, value] of Object.entries(face.colors)) {
+        style[faceColorVariables[color as FaceColor]] = value;
+    }
+    return style;
+}
+
+// Position on a circle around the center for hour 1-12
+function hourPosition(hour: number, radius: number) {
+    const angle = ((hour / 12) * 360 - 90) * (Math.PI / 180);
+    return {
+        x: 50 + radius * Math.cos(angle),
+        y: 50 + radius * Math.sin(angle),
+    };
+}
+
+export function FaceMarkers() {
+    const face = clockFace.value;
+
+    // Generate hour markers
+    const hourMarkers = [];
+    for (let i = 0; i < 12; i++) {
+        const angle = (i / 12) * 360;
+        const transform = `rotate(${angle} 50 50)`;
+        if (face.hourMarkers === "line") {
+            hourMarkers.push(
+                <line
+                    key={`hour-${i}`}
+                    x1="50"
+                    y1="8"
+                    x2="50"
+                    y2="12"
+                    stroke="var(--clock-hour-marker)"
+                    stroke-width="2"
+                    stroke-linecap="round"
+                    transform={transform}
+                />,
+            );
+        } else if (face.hourMarkers === "block") {
+            hourMarkers.push(
+                <rect
+                    key={`hour-${i}`}
+                    x="49.2"
+                    y="6"
+                    width="1.6"
+                    height="7"
+                    fill="var(--clock-hour-marker)"
+                    transform={transform}
+                />,
+            );
+        } else if (face.hourMarkers === "dot") {
+            hourMarkers.push(
+                <circle
+                    key={`hour-${i}`}
+                    cx="50"
+                    cy="10"
+                    // Larger dots at the quarters
+                    r={i % 3 === 0 ? 2 : 1.2}
+                    fill="var(--clock-hour-marker)"
+                    transform={transform}
+                />,
+            );
+        }
+    }
+
+    // Generate minute markers
+    const minuteMarkers = [];
+    if (face.minuteMarkers) {
+        for (let i = 0; i < 60; i++) {
+            if (i % 5 !== 0) {
+                const angle = (i / 60) * 360;
+                minuteMarkers.push(
+                    <line
+                        key={`minute-${i}`}
+                        x1="50"
+                        y1={face.hourMarkers === "block" ? "6" : "9"}
+                        x2="50"
+                        y2="11"
+                        stroke="var(--clock-minute-marker)"
+                        stroke-width="0.5"
+                        stroke-linecap="round"
+                        transform={`rotate(${angle} 50 50)`}
+                    />,
+                );
+            }
+        }
+    }
+
+    return (
+        <g>
+            {hourMarkers}
+            {minuteMarkers}
+        </g>
+    );
+}
+
+// 12-hour numbers and the 24-hour numbers below them
+export function FaceHourNumbers() {
+    const face = clockFace.value;
+    const font = faceFonts[face.font];
+
+    const hourNumbers = [];
+    if (face.numerals !== "none") {
+        for (let i = 1; i <= 12; i++) {
+            if (face.quarterNumerals && i % 3 !== 0) continue;
+            const { x, y } = hourPosition(i, 32);
+            hourNumbers.push(
+                <text
+                    key={`number-${i}`}
+                    x={x}
+                    y={y}
+                    text-anchor="middle"
+                    dominant-baseline="central"
+                    font-size={face.numerals === "roman" ? "6" : "8"}
+                    font-family={font.family}
+                    font-weight={face.font === "serif" ? "normal" : "bold"}
+                    fill="var(--clock-hour-number)"
+                >
+                    {face.numerals === "roman" ? romanNumerals[i % 12] : i}
+                </text>,
+            );
+        }
+    }
+
+    const hour24Numbers = [];
+    if (face.hour24Numbers) {
+        for (let i = 1; i <= 12; i++) {
+            // Closer to center than the 12-hour numbers
+            const { x, y } = hourPosition(i, 25);
+            const hour24 = i + 12; // 13-24
+            hour24Numbers.push(
+                <text
+                    key={`number-24-${i}`}
+                    x={x}
+                    y={y}
+                    text-anchor="middle"
+                    dominant-baseline="central"
+                    font-size="4"
+                    font-family={font.family}
+                    fill="var(--clock-hour24-number)"
+                >
+                    {hour24}
+                </text>,
+            );
+        }
+    }
+
+    return (
+        <g>
+            {hourNumbers}
+            {hour24Numbers}
+        </g>
+    );
+}
+
+// Minute numbers (5, 10, 15, etc.) close to the border
+export function FaceMinuteNumbers() {
+    const face = clockFace.value;
+    if (!face.minuteNumbers) {
+        return null;
+    }
+
+    const minuteNumbers = [];
+    for (let i = 1; i <= 12; i++) {
+        const minute = i * 5;
+        // Just outside the tick markers
+        const { x, y } = hourPosition(i, 45);
+        minuteNumbers.push(
+            <text
+                key={`minute-number-${minute}`}
+                x={x}
+                y={y}
+                text-anchor="middle"
+                dominant-baseline="central"
+                font-size="2.5"
+                font-family={faceFonts[face.font].family}
+                fill="var(--clock-minute-number)"
+            >
+                {minute}
+            </text>,
+        );
+    }
+
+    return <g>{minuteNumbers}</g>;
+}
+
+interface SecondHandProps {
+    angle: number;
+    tick: boolean;
+}
+
+export function SecondHand({ angle, tick }: SecondHandProps) {
+    const style = clockFace.value.secondHand;
+    if (style === "none") {
+        return null;
+    }
+
+    return (
+        <g
+            class={tick ? "hand-tick" : ""}
+            style={{
+                "--rotation": `${angle}deg`,
+                transform: `rotate(${angle}deg)`,
+                transformOrigin: "50px 50px",
+            }}
+        >
+            <line
+                x1="50"
+                y1={style === "railway" ? "62" : "55"}
+                x2="50"
+                y2={style === "railway" ? "20" : "14"}
+                stroke="var(--clock-second-hand)"
+                stroke-width={style === "railway" ? "1.2" : "1"}
+                stroke-linecap="round"
+            />
+            {/* The disc of a station clock */}
+            {style === "railway" && (
+                <circle
+                    cx="50"
+                    cy="18"
+                    r="3.5"
+                    fill="var(--clock-second-hand)"
+                />
+            )}
+        </g>
+    );
+}
+
+function readThemeColor(color: FaceColor) {
+    const value = getComputedStyle(document.documentElement)
+        .getPropertyValue(faceColorVariables[color])
+        .trim();
+    // The colour input only accepts #rrggbb
+    return /^#[0-9a-f]{6}$/i.test(value) ? value : "#000000";
+}
+
+function setFaceColor(color: FaceColor, value: string) {
+    updateFace({ colors: { ...clockFace.value.colors, [color]: value } });
+}
+
+function copyFaceLink() {
+    const params = new URLSearchParams();
+    params.set("face", clockFaceCodec.stringify(clockFace.value));
+    params.set(VERSION_PARAM, String(URL_SCHEMA_VERSION));
+    const url = `${window.location.origin}${window.location.pathname}?${params.toString()}`;
+    navigator.clipboard.writeText(url).catch((err) => {
+        console.error("Failed to copy face link:", err);
+    });
+}
+
+const selectClass = "themed-field w-36 pl-2 pr-6 py-1 text-xs rounded";
+
+export function FaceSettings() {
+    const face = clockFace.value;
+    const activePreset = getActivePreset(face);
+
+    return (
+        <SettingsCard>
+            <span class="text-sm themed-muted-text">Kellotaulu</span>
+            <div class="flex flex-wrap gap-2">
+                {Object.entries(facePresetLabels).map(([preset, label]) => (
+                    <button
+                        type="button"
+                        onClick={() =>
+                            (clockFace.value =
+                                facePresets[preset as FacePreset])
+                        }
+                        class={`px-3 py-1 text-xs rounded-full transition-colors ${
+                            activePreset === preset
+                                ? "bg-blue-500 text-white"
+                                : "themed-secondary-button border border-[var(--border-subtle)]"
+                        }`}
+                    >
+                        {label}
+                    </button>
+                ))}
+                {activePreset === null && (
+                    <span class="px-3 py-1 text-xs rounded-full bg-blue-500 text-white">
+                        Oma
+                    </span>
+                )}
+            </div>
+
+            <div class="pt-2 border-t border-[var(--border-subtle)] flex flex-col gap-3">
+                <SettingsRow label="Tuntimerkit">
+                    <select
+                        value={face.hourMarkers}
+                        onInput={(e) =>
+                            updateFace({
+                                hourMarkers: (e.target as HTMLSelectElement)
+                                    .value as HourMarkerStyle,
+                            })
+                        }
+                        class={selectClass}
+                    >
+                        <option value="line">Viiva</option>
+                        <option value="block">Palkki</option>
+                        <option value="dot">Piste</option>
+                        <option value="none">Ei merkkejä</option>
+                    </select>
+                </SettingsRow>
+                <SettingsRow label="Numerot">
+                    <select
+                        value={face.numerals}
+                        onInput={(e) =>
+                            updateFace({
+                                numerals: (e.target as HTMLSelectElement)
+                                    .value as NumeralStyle,
+                            })
+                        }
+                        class={selectClass}
+                    >
+                        <option value="arabic">1 2 3</option>
+                        <option value="roman">I II III</option>
+                        <option value="none">Ei numeroita</option>
+                    </select>
+                </SettingsRow>
+                <SettingsRow label="Fontti">
+                    <select
+                        value={face.font}
+                        onInput={(e) =>
+                            updateFace({
+                                font: (e.target as HTMLSelectElement)
+                                    .value as FaceFont,
+                            })
+                        }
+                        class={selectClass}
+                    >
+                        {Object.entries(faceFonts).map(([font, { label }]) => (
+                            <option value={font}>{label}</option>
+                        ))}
+                    </select>
+                </SettingsRow>
+                <SettingsRow label="Sekuntiosoitin">
+                    <select
+                        value={face.secondHand}
+                        onInput={(e) =>
+                            updateFace({
+                                secondHand: (e.target as HTMLSelectElement)
+                                    .value as SecondHandStyle,
+                            })
+                        }
+                        class={selectClass}
+                    >
+                        <option value="classic">Tavallinen</option>
+                        <option value="railway">Asemakello</option>
+                        <option value="none">Piilossa</option>
+                    </select>
+                </SettingsRow>
+                <CheckboxRow
+                    id="face-quarter-numerals"
+                    label="Vain 12, 3, 6 ja 9"
+                    checked={face.quarterNumerals}
+                    onChange={() =>
+                        updateFace({ quarterNumerals: !face.quarterNumerals })
+                    }
+                />
+                <CheckboxRow
+                    id="face-minute-markers"
+                    label="Minuuttimerkit"
+                    checked={face.minuteMarkers}
+                    onChange={() =>
+                        updateFace({ minuteMarkers: !face.minuteMarkers })
+                    }
+                />
+                <CheckboxRow
+                    id="face-hour24-numbers"
+                    label="24 tunnin numerot"
+                    checked={face.hour24Numbers}
+                    onChange={() =>
+                        updateFace({ hour24Numbers: !face.hour24Numbers })
+                    }
+                />
+                <CheckboxRow
+                    id="face-minute-numbers"
+                    label="Minuuttinumerot"
+                    checked={face.minuteNumbers}
+                    onChange={() =>
+                        updateFace({ minuteNumbers: !face.minuteNumbers })
+                    }
+                />
+            </div>
+
+            <div class="pt-2 border-t border-[var(--border-subtle)] grid grid-cols-2 gap-2">
+                {Object.entries(faceColorLabels).map(([color, label]) => (
+                    <label class="flex items-center gap-2 text-xs themed-muted-text">
+                        <input
+                            type="color"
+                            value={
+                                face.colors[color as FaceColor] ??
+                                readThemeColor(color as FaceColor)
+                            }
+                            onInput={(e) =>
+                                setFaceColor(
+                                    color as FaceColor,
+                                    (e.target as HTMLInputElement).value,
+                                )
+                            }
+                            class="w-6 h-6 rounded cursor-pointer"
+                        />
+                        {label}
+                    </label>
+                ))}
+            </div>
+
+            <div class="flex gap-2">
+                {Object.keys(face.colors).length > 0 && (
+                    <button
+                        type="button"
+                        onClick={() => updateFace({ colors: {} })}
+                        class="themed-secondary-button px-3 py-1 text-xs rounded-full border border-[var(--border-subtle)] transition-colors"
+                    >
+                        🎨 Teeman värit
+                    </button>
+                )}
+                <button
+                    type="button"
+                    onClick={copyFaceLink}
+                    class="themed-secondary-button px-3 py-1 text-xs rounded-full border border-[var(--border-subtle)] transition-colors"
+                >
+                    🔗 Kopioi kellotaulun linkki
+                </button>
+            </div>
+        </SettingsCard>
+    );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useState } from "preact/hooks";
+import { clearItems, deleteItemsBefore, getAllItems, putItem } from "./db";
+import { weekdayLabels } from "./recurrence";
+
+export type AlarmEventType =
+    | "trigger"
+    | "snooze"
+    | "dismiss"
+    | "miss"
+    | "prealarm";
+
+export interface AlarmEvent {
+    id: string;
+    type: AlarmEventType;
+    alarmId: string;
+    label: string;
+    // Epoch milliseconds
+    at: number;
+    // trigger: minutes after the alarm time the alarm started ringing
+    lateMinutes?: number;
+    // prealarm: minutes left to the alarm at the first announcement
+    minutesRemaining?: number;
+    // dismiss: snoozes used and seconds from the first ring to dismissal
+    snoozeCount?: number;
+    dismissDelaySeconds?: number;
+}
+
+const eventTypeLabels: Record<AlarmEventType, string> = {
+    trigger: "Soi",
+    snooze: "Torkku",
+    dismiss: "Lopetettu",
+    miss: "Ohitettu",
+    prealarm: "Väliaikaviesti",
+};
+
+// Older events are dropped when the next one is recorded
+const HISTORY_RETENTION_DAYS = 90;
+
+let historyPruned = false;
+
+// The ids start with the time, so the old events are one key range
+function pruneAlarmHistory() {
+    const cutoff = Date.now() - HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    return deleteItemsBefore("history", `${cutoff}`);
+}
+
+export function recordAlarmEvent(event: Omit<AlarmEvent, "id" | "at">) {
+    const at = Date.now();
+    putItem<AlarmEvent>("history", {
+        id: `${at}-${Math.random().toString(36).substring(2, 6)}`,
+        at,
+        ...event,
+    }).catch((err) => {
+        console.error("Failed to record alarm event:", err);
+    });
+
+    if (!historyPruned) {
+        historyPruned = true;
+        pruneAlarmHistory().catch((err) => {
+            console.error("Failed to prune alarm history:", err);
+        });
+    }
+}
+
+export async function loadAlarmHistory(): Promise<AlarmEvent[]> {
+    const events = await getAllItems<AlarmEvent>("history");
+    return events.sort((a, b) => b.at - a.at);
+}
+
+// Average seconds from the first ring to dismissal by weekday, Monday first
+export function getDismissDelayByWeekday(events: AlarmEvent[]) {
+    return weekdayLabels.map(([day, label]) => {
+        const delays = events
+            .filter(
+                (e) =>
+                    e.type === "dismiss" &&
+                    e.dismissDelaySeconds !== undefined &&
+                    new Date(e.at).getDay() === day,
+            )
+            .map((e) => e.dismissDelaySeconds!);
+        const average =
+            delays.length > 0
+                ? delays.reduce((sum, d) => sum + d, 0) / delays.length
+                : null;
+        return { label, count: delays.length, average };
+    });
+}
+
+function csvField(value: string | number | undefined) {
+    if (value === undefined) return "";
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function alarmHistoryToCsv(events: AlarmEvent[]) {
+    const header = [
+        "time",
+        "event",
+        "alarm",
+        "late_minutes",
+        "minutes_remaining",
+        "snooze_count",
+        "dismiss_delay_seconds",
+    ];
+    const rows = events.map((e) =>
+        [
+            new Date(e.at).toISOString(),
+            e.type,
+            e.label,
+            e.lateMinutes,
+            e.minutesRemaining,
+            e.snoozeCount,
+            e.dismissDelaySeconds,
+        ]
+            .map(csvField)
+            .join(","),
+    );
+    return [header.join(","), ...rows].join("\n");
+}
+
+function downloadCsv(events: AlarmEvent[]) {
+    const blob = new Blob([alarmHistoryToCsv(events)], {
+        type: "text/csv;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `kello-historia-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+function formatDelay(seconds: number) {
+    const minutes = Math.floor(seconds / 60);
+    const rest = Math.round(seconds % 60);
+    return minutes > 0 ? `${minutes} min ${rest} s` : `${rest} s`;
+}
+
+function describeEvent(event: AlarmEvent) {
+    switch (event.type) {
+        case "trigger":
+            return event.lateMinutes ? `myöhässä ${event.lateMinutes} min` : "";
+        case "prealarm":
+            return `${event.minutesRemaining} min jäljellä`;
+        case "dismiss":
+            return [
+                event.dismissDelaySeconds !== undefined &&
+                    `${formatDelay(event.dismissDelaySeconds)} soimisesta`,
+                event.snoozeCount && `${event.snoozeCount} torkkua`,
+            ]
+                .filter(Boolean)
+                .join(", ");
+        default:
+            return "";
+    }
+}
+
+export function AlarmHistory() {
+    const [events, setEvents] = useState<AlarmEvent[]>([]);
+
+    const refresh = () => {
+        loadAlarmHistory().then(setEvents);
+    };
+
+    useEffect(refresh, []);
+
+    const clearHistory = async () => {
+        if (!confirm("Tyhjennetäänkö koko historia?")) return;
+        await clearItems("history");
+        refresh();
+    };
+
+    const byWeekday = getDismissDelayByWeekday(events);
+    const snoozeCount = events.filter((e) => e.type === "snooze").length;
+
+    return (
+        <div class="min-h-screen bg-white p-4 text-gray-900">
+            <div class="max-w-4xl mx-auto">
+                <div class="flex justify-between items-center gap-2 mb-6">
+                    <h1 class="text-2xl font-bold text-gray-900">
+                        Hälytyshistoria ({events.length})
+                    </h1>
+                    <button
+                        onClick={() => downloadCsv(events)}
+                        class="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+                    >
+                        Lataa CSV
+                    </button>
+                    <button
+                        onClick={clearHistory}
+                        class="px-4 py-2 bg-gray-200 text-gray-900 rounded hover:bg-gray-300"
+                    >
+                        Tyhjennä
+                    </button>
+                    <button
+                        onClick={() => (document.location.href = "/")}
+                        class="px-4 py-2 bg-red-700 text-white rounded hover:bg-red-300"
+                    >
+                        Takaisin
+                    </button>
+                </div>
+
+                <h2 class="text-lg font-semibold mb-2">
+                    Keskimääräinen aika lopettamiseen
+                </h2>
+                <div class="grid grid-cols-7 gap-2 mb-2 text-center text-sm">
+                    {byWeekday.map(({ label, count, average }) => (
+                        <div class="border border-gray-300 rounded-lg p-2">
+                            <div class="font-semibold">{label}</div>
+                            <div>
+                                {average !== null ? formatDelay(average) : "–"}
+                            </div>
+                            <div class="text-xs text-gray-500">{count} kpl</div>
+                        </div>
+                    ))}
+                </div>
+                <p class="text-sm text-gray-700 mb-6">
+                    Torkkuja yhteensä: {snoozeCount}
+                </p>
+
+                <div class="space-y-1 text-sm">
+                    {events.map((event) => (
+                        <div
+                            key={event.id}
+                            class="flex gap-3 border-b border-gray-200 py-1"
+                        >
+                            <span class="font-mono text-gray-700 w-40 shrink-0">
+                                {new Date(event.at).toLocaleString("fi-FI", {
+                                    weekday: "short",
+                                    day: "numeric",
+                                    month: "numeric",
+                                    hour: "2-digit",
+                                    minute: "2-digit",
+                                })}
+                            </span>
+                            <span class="font-medium w-28 shrink-0">
+                                {eventTypeLabels[event.type]}
+                            </span>
+                            <span class="flex-1">{event.label}</span>
+                            <span class="text-gray-500">
+                                {describeEvent(event)}
+                            </span>
+                        </div>
+                    ))}
+                    {events.length === 0 && (
+                        <div class="text-gray-500 text-center py-8">
+                            Ei tapahtumia
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -8,109 +8,98 @@ import {
     triggerAlarm,
     AlarmSettings,
     AlarmFlashBackground,
-    AlarmHand,
-    alarmEnabled,
+    AlarmHands,
+    anyAlarmEnabled,
     alarmHandDragging,
     alarmTriggered,
     useAlarmHandDrag,
     computeTimeToNextAlarm,
-    alarmTimeFormatted,
+    formatAlarmTime,
     checkPreAlarm,
-    playPreAlarmDing,
+    playPreAlarmDings,
+    checkSnooze,
+    computeSnoozeRemaining,
+    checkAutoStop,
+    missAlarm,
+    missedAlarms,
+    clearMissedAlarms,
 } from "./alarm";
-import { TimeField } from "./TimeField";
+import { AlarmOverlay } from "./AlarmOverlay";
+import { ClockChallengeHand } from "./challenges";
+import { VoiceSettings } from "./speech";
+import { clockMode, ModeSelector } from "./mode";
+import {
+    checkTimer,
+    finishTimer,
+    timerRinging,
+    useTimerDrag,
+    TimerSector,
+    TimerOverlay,
+    TimerSettings,
+} from "./timer";
+import { StopwatchHands, StopwatchSettings } from "./stopwatch";
+import {
+    checkNamedTimers,
+    NamedTimerAlerts,
+    NamedTimerSettings,
+    ringingTimers,
+} from "./timers";
+import {
+    checkRoutine,
+    nextRoutineStep,
+    RoutineArc,
+    RoutineSettings,
+} from "./routine";
+import {
+    checkSchedule,
+    announceBlocks,
+    ScheduleArcs,
+    CurrentBlockLabel,
+    ScheduleSettings,
+} from "./schedule";
+import {
+    displayTimeZone,
+    toZonedTime,
+    WorldClocks,
+    TimeZoneSettings,
+} from "./timezone";
+import { displayMode, InstallButton, registerServiceWorker } from "./pwa";
+import { AlarmHistory } from "./history";
+import { checkTheme, ThemeSettings } from "./theme";
+import {
+    checkNightMode,
+    nightModeActive,
+    nightPaletteActive,
+    nightSecondHand,
+    NightDimmer,
+    NightModeSettings,
+} from "./night";
+import { ProfileSettings } from "./profiles";
+import {
+    clockFace,
+    getFaceColorStyle,
+    FaceMarkers,
+    FaceHourNumbers,
+    FaceMinuteNumbers,
+    SecondHand,
+    FaceSettings,
+} from "./face";
+import {
+    backgroundAlarmsAvailable,
+    triggersSupported,
+    notificationPermission,
+    requestNotificationPermission,
+    handlePendingAlarmAction,
+    NotificationSettings,
+} from "./notifications";
+import { describeRepeat } from "./recurrence";
 import { Tooltip } from "./Tooltip";
-import { SettingsCard, SettingsRow, CheckboxRow } from "./SettingsCard";
 
 // Wake Lock state
 const wakeLockEnabled = signal(false);
 const wakeLockSupported = signal("wakeLock" in navigator);
 let wakeLockSentinel: WakeLockSentinel | null = null;
 
-const storedTheme = window.localStorage.getItem("theme");
-const storedDarkModeAutoOffEnabled = window.localStorage.getItem(
-    "darkModeAutoOffEnabled",
-);
-const storedDarkModeAutoOffTime = window.localStorage.getItem(
-    "darkModeAutoOffTime",
-);
-const darkModeEnabled = signal(
-    storedTheme !== null ? storedTheme === "dark" : false,
-);
-const darkModeAutoOffEnabled = signal(storedDarkModeAutoOffEnabled === "true");
-const darkModeAutoOffTime = signal(
-    storedDarkModeAutoOffTime && /^\d{2}:\d{2}$/.test(storedDarkModeAutoOffTime)
-        ? storedDarkModeAutoOffTime
-        : "07:00",
-);
-
-function applyTheme(isDark: boolean) {
-    document.documentElement.dataset.theme = isDark ? "dark" : "light";
-    document.documentElement.style.colorScheme = isDark ? "dark" : "light";
-}
-
-function persistDarkModePreference() {
-    window.localStorage.setItem(
-        "theme",
-        darkModeEnabled.value ? "dark" : "light",
-    );
-}
-
-function persistDarkModeAutoOff() {
-    window.localStorage.setItem(
-        "darkModeAutoOffEnabled",
-        darkModeAutoOffEnabled.value ? "true" : "false",
-    );
-    window.localStorage.setItem(
-        "darkModeAutoOffTime",
-        darkModeAutoOffTime.value,
-    );
-}
-
-function setDarkModeEnabled(isDark: boolean) {
-    darkModeEnabled.value = isDark;
-    applyTheme(isDark);
-    persistDarkModePreference();
-}
-
-function toggleDarkMode() {
-    setDarkModeEnabled(!darkModeEnabled.value);
-}
-
-function toggleDarkModeAutoOff() {
-    darkModeAutoOffEnabled.value = !darkModeAutoOffEnabled.value;
-    persistDarkModeAutoOff();
-}
-
-function handleDarkModeAutoOffTimeChange(e: Event) {
-    const target = e.target as HTMLInputElement;
-    if (!target.value) {
-        return;
-    }
-
-    darkModeAutoOffTime.value = target.value;
-    persistDarkModeAutoOff();
-}
-
-function shouldDisableDarkMode(currentTime: Date) {
-    if (!darkModeEnabled.value || !darkModeAutoOffEnabled.value) {
-        return false;
-    }
-
-    const parts = darkModeAutoOffTime.value.split(":");
-    const hours = Number(parts[0]);
-    const minutes = Number(parts[1]);
-
-    return (
-        !isNaN(hours) &&
-        !isNaN(minutes) &&
-        currentTime.getHours() === hours &&
-        currentTime.getMinutes() === minutes
-    );
-}
-
-applyTheme(darkModeEnabled.value);
-
 // Fullscreen state
 const fullscreenEnabled = signal(false);
 const fullscreenSupported = signal(
@@ -185,35 +174,52 @@ const minuteTick = signal(false);
 const lastSecond = signal(-1);
 const lastMinute = signal(-1);
 
+// Wall clock time of the zone shown on the face
+const displayTime = computed(() =>
+    toZonedTime(currentTime.value, displayTimeZone.value),
+);
+
 // Computed signals for clock hands angles
 const secondsAngle = computed(() => {
-    const seconds = currentTime.value.getSeconds();
+    let seconds = displayTime.value.getSeconds();
+    // Calmer second hand for night mode
+    if (nightSecondHand.value === "slow") {
+        seconds -= seconds % 5;
+    }
     return (seconds / 60) * 360;
 });
 
 const minutesAngle = computed(() => {
-    const minutes = currentTime.value.getMinutes();
+    const minutes = displayTime.value.getMinutes();
     return (minutes / 60) * 360;
 });
 
 const hoursAngle = computed(() => {
-    const hours = currentTime.value.getHours() % 12;
-    const minutes = currentTime.value.getMinutes();
+    const hours = displayTime.value.getHours() % 12;
+    const minutes = displayTime.value.getMinutes();
     return ((hours + minutes / 60) / 12) * 360;
 });
 
 function AnalogClock() {
     const svgRef = useRef<SVGSVGElement>(null);
-    const { handleStart } = useAlarmHandDrag(svgRef);
+    const { handleStart: handleAlarmStart } = useAlarmHandDrag(svgRef);
+    const { handleStart: handleTimerStart } = useTimerDrag(svgRef);
+
+    // In timer mode the face sets the timer instead of the alarms
+    const timerMode = clockMode.value === "timer";
+    const stopwatchMode = clockMode.value === "stopwatch";
+    const faceDraggable =
+        timerMode || (!stopwatchMode && anyAlarmEnabled.value);
+    const handleStart = timerMode ? handleTimerStart : handleAlarmStart;
 
     const onClockFaceClick = (e: MouseEvent) => {
-        if (!alarmEnabled.value) return;
+        if (!faceDraggable) return;
         e.preventDefault();
         handleStart(e.clientX, e.clientY);
     };
 
     const onClockFaceTouchStart = (e: TouchEvent) => {
-        if (!alarmEnabled.value) return;
+        if (!faceDraggable) return;
         e.preventDefault();
         const touch = e.touches[0];
         if (touch) {
@@ -245,144 +251,56 @@ function AnalogClock() {
                 }, 150);
             }
 
-            // Check alarm once per minute
+            // Ring a snoozed alarm again when its snooze runs out
+            const snoozedAlarm = checkSnooze(currentTime.value);
+            if (snoozedAlarm) {
+                triggerAlarm(snoozedAlarm);
+            }
+
+            // Stop an alarm that has rung too long without a reaction
+            if (checkAutoStop(currentTime.value)) {
+                missAlarm();
+            }
+
+            if (checkTimer(currentTime.value)) {
+                finishTimer();
+            }
+
+            checkNamedTimers(currentTime.value);
+
+            // Move to the next routine step when the current one runs out
+            if (checkRoutine(currentTime.value)) {
+                nextRoutineStep();
+            }
+
+            // Alarms are compared against their absolute fire times so they
+            // can be checked on every tick
+            const dueAlarm = checkAlarm(currentTime.value);
+            if (dueAlarm) {
+                triggerAlarm(dueAlarm.alarm, dueAlarm.lateMinutes);
+            }
+
+            // Announce day plan blocks as they start
+            announceBlocks(checkSchedule(currentTime.value));
+
+            // Other checks once per minute
             const currentMinute =
                 currentTime.value.getHours() * 60 +
                 currentTime.value.getMinutes();
             if (currentMinute !== lastCheckedMinute.value) {
                 lastCheckedMinute.value = currentMinute;
 
-                if (shouldDisableDarkMode(currentTime.value)) {
-                    setDarkModeEnabled(false);
-                }
-
-                if (checkAlarm(currentTime.value)) {
-                    triggerAlarm();
-                }
+                checkTheme(currentTime.value);
+                checkNightMode(currentTime.value);
 
                 // Check pre-alarm notifications
-                const minutesRemaining = checkPreAlarm(currentTime.value);
-                if (minutesRemaining) {
-                    playPreAlarmDing(minutesRemaining);
-                }
+                playPreAlarmDings(checkPreAlarm(currentTime.value));
             }
         }, 50);
 
         return () => clearInterval(interval);
     }, []);
 
-    // Generate hour markers
-    const hourMarkers = [];
-    for (let i = 0; i < 12; i++) {
-        const angle = (i / 12) * 360;
-        hourMarkers.push(
-            <line
-                key={`hour-${i}`}
-                x1="50"
-                y1="8"
-                x2="50"
-                y2="12"
-                stroke="var(--clock-hour-marker)"
-                stroke-width="2"
-                stroke-linecap="round"
-                transform={`rotate(${angle} 50 50)`}
-            />,
-        );
-    }
-
-    // Generate minute markers
-    const minuteMarkers = [];
-    for (let i = 0; i < 60; i++) {
-        if (i % 5 !== 0) {
-            const angle = (i / 60) * 360;
-            minuteMarkers.push(
-                <line
-                    key={`minute-${i}`}
-                    x1="50"
-                    y1="9"
-                    x2="50"
-                    y2="11"
-                    stroke="var(--clock-minute-marker)"
-                    stroke-width="0.5"
-                    stroke-linecap="round"
-                    transform={`rotate(${angle} 50 50)`}
-                />,
-            );
-        }
-    }
-
-    // Generate hour numbers
-    const hourNumbers = [];
-    for (let i = 1; i <= 12; i++) {
-        const angle = ((i / 12) * 360 - 90) * (Math.PI / 180);
-        const radius = 32;
-        const x = 50 + radius * Math.cos(angle);
-        const y = 50 + radius * Math.sin(angle);
-        hourNumbers.push(
-            <text
-                key={`number-${i}`}
-                x={x}
-                y={y}
-                text-anchor="middle"
-                dominant-baseline="central"
-                font-size="8"
-                font-family="Arial, sans-serif"
-                font-weight="bold"
-                fill="var(--clock-hour-number)"
-            >
-                {i}
-            </text>,
-        );
-    }
-
-    // Generate 24-hour numbers (smaller, below the regular numbers)
-    const hour24Numbers = [];
-    for (let i = 1; i <= 12; i++) {
-        const angle = ((i / 12) * 360 - 90) * (Math.PI / 180);
-        const radius = 25; // Closer to center than the 12-hour numbers
-        const x = 50 + radius * Math.cos(angle);
-        const y = 50 + radius * Math.sin(angle);
-        const hour24 = i + 12; // 13-24
-        hour24Numbers.push(
-            <text
-                key={`number-24-${i}`}
-                x={x}
-                y={y}
-                text-anchor="middle"
-                dominant-baseline="central"
-                font-size="4"
-                font-family="Arial, sans-serif"
-                fill="var(--clock-hour24-number)"
-            >
-                {hour24}
-            </text>,
-        );
-    }
-
-    // Generate minute numbers (5, 10, 15, etc.) close to the border
-    const minuteNumbers = [];
-    for (let i = 1; i <= 12; i++) {
-        const minute = i * 5;
-        const angle = ((i / 12) * 360 - 90) * (Math.PI / 180);
-        const radius = 45; // Just outside the tick markers
-        const x = 50 + radius * Math.cos(angle);
-        const y = 50 + radius * Math.sin(angle);
-        minuteNumbers.push(
-            <text
-                key={`minute-number-${minute}`}
-                x={x}
-                y={y}
-                text-anchor="middle"
-                dominant-baseline="central"
-                font-size="2.5"
-                font-family="Arial, sans-serif"
-                fill="var(--clock-minute-number)"
-            >
-                {minute}
-            </text>,
-        );
-    }
-
     return (
         <svg
             ref={svgRef}
@@ -394,6 +312,10 @@ function AnalogClock() {
                 maxHeight: "100vmin",
                 display: "block",
                 userSelect: "none",
+                // Face colours would show through the red palette
+                ...(nightPaletteActive.value
+                    ? {}
+                    : getFaceColorStyle(clockFace.value)),
             }}
         >
             {/* Clock face */}
@@ -405,26 +327,38 @@ function AnalogClock() {
                 stroke="var(--clock-ring)"
                 stroke-width="2"
                 style={{
-                    cursor: alarmEnabled.value ? "pointer" : "default",
+                    cursor: faceDraggable ? "pointer" : "default",
                 }}
                 onMouseDown={onClockFaceClick}
                 onTouchStart={onClockFaceTouchStart}
             />
 
-            {/* Hour markers */}
-            {hourMarkers}
+            {/* Countdown timer sector */}
+            {timerMode && <TimerSector currentTime={currentTime} />}
 
-            {/* Minute markers */}
-            {minuteMarkers}
+            {/* Remaining time of the current routine step */}
+            {clockMode.value === "routine" && (
+                <RoutineArc currentTime={currentTime} />
+            )}
 
-            {/* Hour numbers */}
-            {hourNumbers}
+            {/* Hour and minute markers */}
+            <FaceMarkers />
 
-            {/* 24-hour numbers */}
-            {hour24Numbers}
+            {/* Hour numbers and 24-hour numbers */}
+            <FaceHourNumbers />
+
+            {/* Day plan blocks of the current 12-hour half */}
+            {clockMode.value === "clock" && (
+                <>
+                    <ScheduleArcs currentTime={displayTime} />
+                    {!alarmHandDragging.value && (
+                        <CurrentBlockLabel currentTime={displayTime} />
+                    )}
+                </>
+            )}
 
             {/* Minute numbers (5, 10, 15, etc.) */}
-            {minuteNumbers}
+            <FaceMinuteNumbers />
 
             {/* Hour hand */}
             <line
@@ -455,41 +389,42 @@ function AnalogClock() {
                 }}
             />
 
-            {/* Second hand */}
-            <line
-                x1="50"
-                y1="55"
-                x2="50"
-                y2="14"
-                stroke="#e53e3e"
-                stroke-width="1"
-                stroke-linecap="round"
-                class={secondTick.value ? "hand-tick" : ""}
-                style={{
-                    "--rotation": `${secondsAngle.value}deg`,
-                    transform: `rotate(${secondsAngle.value}deg)`,
-                    transformOrigin: "50px 50px",
-                }}
-            />
+            {/* Second hand, replaced by the stopwatch hands */}
+            {stopwatchMode ? (
+                <StopwatchHands currentTime={currentTime} />
+            ) : (
+                nightSecondHand.value !== "hidden" && (
+                    <SecondHand
+                        angle={secondsAngle.value}
+                        tick={
+                            secondTick.value &&
+                            nightSecondHand.value === "normal"
+                        }
+                    />
+                )
+            )}
 
-            {/* Alarm hand (only shown when alarm is enabled) - rendered last to be on top */}
-            {alarmEnabled.value && <AlarmHand svgRef={svgRef} />}
+            {/* Alarm hands (one per enabled alarm) - rendered last to be on top */}
+            {clockMode.value === "clock" && <AlarmHands svgRef={svgRef} />}
+
+            {/* Dismiss challenge hand, covers the alarm hands while active */}
+            <ClockChallengeHand svgRef={svgRef} />
 
             {/* Center dot */}
             <circle cx="50" cy="50" r="2.5" fill="var(--clock-center)" />
-            <circle cx="50" cy="50" r="1" fill="#e53e3e" />
+            <circle cx="50" cy="50" r="1" fill="var(--clock-second-hand)" />
         </svg>
     );
 }
 
 function DigitalClock() {
     const timeString = computed(() => {
-        const hours = currentTime.value.getHours().toString().padStart(2, "0");
-        const minutes = currentTime.value
+        const hours = displayTime.value.getHours().toString().padStart(2, "0");
+        const minutes = displayTime.value
             .getMinutes()
             .toString()
             .padStart(2, "0");
-        const seconds = currentTime.value
+        const seconds = displayTime.value
             .getSeconds()
             .toString()
             .padStart(2, "0");
@@ -499,7 +434,13 @@ function DigitalClock() {
     return (
         <div
             class="absolute top-4 left-4 bg-black bg-opacity-70 text-white px-3 py-1 rounded-lg font-mono text-lg font-bold shadow-lg"
-            style={{ zIndex: 1000 }}
+            style={{
+                zIndex: 1000,
+                // No white glow in a dark bedroom
+                color: nightModeActive.value
+                    ? "var(--text-primary)"
+                    : undefined,
+            }}
         >
             {timeString.value}
         </div>
@@ -507,12 +448,14 @@ function DigitalClock() {
 }
 
 function AlarmBellIcon() {
-    if (!alarmEnabled.value) {
+    const missed = missedAlarms.value;
+    if (!anyAlarmEnabled.value && missed.length === 0) {
         return null;
     }
 
     const timeToAlarm = computeTimeToNextAlarm(currentTime);
     const countdown = timeToAlarm.value;
+    const snoozeRemaining = computeSnoozeRemaining(currentTime).value;
 
     return (
         <div
@@ -547,21 +490,82 @@ function AlarmBellIcon() {
                     stroke-linejoin="round"
                 />
             </svg>
-            <Tooltip content="Hälytysaika" position="left">
-                <div class="text-white font-mono text-xs font-bold">
-                    {alarmTimeFormatted.value}
-                </div>
-            </Tooltip>
+            {countdown && (
+                <Tooltip
+                    content={`${countdown.alarm.label || "Hälytysaika"}, ${describeRepeat(
+                        countdown.alarm.repeat,
+                    ).toLowerCase()}`}
+                    position="left"
+                >
+                    <div class="text-white font-mono text-xs font-bold">
+                        {formatAlarmTime(countdown.alarm)}
+                    </div>
+                </Tooltip>
+            )}
 
             {countdown && (
                 <Tooltip content="Aika seuraavaan herätykseen" position="left">
                     <div class="text-white font-mono text-[10px] font-bold opacity-80">
+                        {countdown.days > 0 && `${countdown.days}pv `}
                         {countdown.hours.toString().padStart(2, "0")}:
                         {countdown.minutes.toString().padStart(2, "0")}:
                         {countdown.seconds.toString().padStart(2, "0")}
                     </div>
                 </Tooltip>
             )}
+
+            {snoozeRemaining && (
+                <Tooltip content="Torkku päättyy" position="left">
+                    <div class="text-white font-mono text-[10px] font-bold">
+                        💤 {snoozeRemaining.minutes.toString().padStart(2, "0")}
+                        :{snoozeRemaining.seconds.toString().padStart(2, "0")}
+                    </div>
+                </Tooltip>
+            )}
+
+            {anyAlarmEnabled.value && !backgroundAlarmsAvailable.value && (
+                <Tooltip
+                    content={
+                        !triggersSupported
+                            ? "Hälytys soi vain, kun kello on auki. Tämä selain ei osaa ajastaa ilmoituksia."
+                            : notificationPermission.value === "default"
+                              ? "Hälytys soi vain, kun kello on auki. Napsauta salliaksesi ilmoitukset."
+                              : "Hälytys soi vain, kun kello on auki."
+                    }
+                    position="left"
+                >
+                    <button
+                        type="button"
+                        onClick={requestNotificationPermission}
+                        class="text-white text-[10px] font-bold"
+                    >
+                        📵
+                    </button>
+                </Tooltip>
+            )}
+
+            {missed.length > 0 && (
+                <Tooltip
+                    content={`Ohitettu: ${missed
+                        .map(
+                            (m) =>
+                                `${m.label} ${m.at.toLocaleTimeString("fi-FI", {
+                                    hour: "2-digit",
+                                    minute: "2-digit",
+                                })}`,
+                        )
+                        .join(", ")}. Napsauta kuitataksesi.`}
+                    position="left"
+                >
+                    <button
+                        type="button"
+                        onClick={clearMissedAlarms}
+                        class="text-white font-mono text-[10px] font-bold"
+                    >
+                        ⚠️ {missed.length}
+                    </button>
+                </Tooltip>
+            )}
         </div>
     );
 }
@@ -640,7 +644,9 @@ function FullscreenToggle() {
         };
     }, []);
 
-    if (!fullscreenSupported.value) {
+    // Nothing to toggle when the installed app was launched without any
+    // browser UI
+    if (!fullscreenSupported.value || displayMode.value === "fullscreen") {
         return null;
     }
 
@@ -663,45 +669,6 @@ function FullscreenToggle() {
     );
 }
 
-function DarkModeSettings() {
-    return (
-        <SettingsCard>
-            <SettingsRow label="Tumma tila">
-                <ToggleButton
-                    checked={darkModeEnabled.value}
-                    checkbox
-                    onChange={toggleDarkMode}
-                    checkedClass="bg-slate-800 text-white hover:bg-slate-700"
-                    uncheckedClass="bg-gray-200 text-gray-700 hover:bg-gray-300 dark-toggle-off"
-                    checkedChildren="🌙 Päällä"
-                >
-                    🌙 Pois
-                </ToggleButton>
-            </SettingsRow>
-
-            {darkModeEnabled.value && (
-                <div class="pt-1 border-t border-[var(--border-subtle)]">
-                    <CheckboxRow
-                        id="dark-mode-auto-off"
-                        label="Sammuta automaattisesti"
-                        checked={darkModeAutoOffEnabled.value}
-                        onChange={toggleDarkModeAutoOff}
-                    >
-                        <SettingsRow label="Sammutusaika">
-                            <TimeField
-                                id="dark-mode-auto-off-time"
-                                label=""
-                                value={darkModeAutoOffTime.value}
-                                onInput={handleDarkModeAutoOffTimeChange}
-                            />
-                        </SettingsRow>
-                    </CheckboxRow>
-                </div>
-            )}
-        </SettingsCard>
-    );
-}
-
 function VoiceDebug() {
     const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
     const [refreshKey, setRefreshKey] = useState(0);
@@ -821,23 +788,32 @@ function VoiceDebug() {
 }
 
 export function App() {
+    // The dimmer would cover the stop buttons of anything ringing
+    const ringing =
+        alarmTriggered.value ||
+        timerRinging.value ||
+        ringingTimers.value.length > 0;
+
     return (
         <div
             style={{
                 overflow: "hidden",
                 width: "100%",
-                backgroundColor: alarmTriggered.value
-                    ? "transparent"
-                    : "var(--app-bg)",
+                backgroundColor: ringing ? "transparent" : "var(--app-bg)",
                 color: "var(--text-primary)",
             }}
         >
             <DigitalClock />
             <AlarmBellIcon />
-            <AlarmFlashBackground />
+            <AlarmFlashBackground active={ringing} />
+            <AlarmOverlay />
+            <TimerOverlay />
+            <NamedTimerAlerts />
+            <NightDimmer disabled={ringing} />
             {/* Clock container - 100dvh for mobile landscape support */}
             <div
                 style={{
+                    position: "relative",
                     display: "flex",
                     justifyContent: "center",
                     alignItems: "center",
@@ -845,13 +821,12 @@ export function App() {
                     width: "100%",
                     margin: 0,
                     padding: 0,
-                    backgroundColor: alarmTriggered.value
-                        ? "transparent"
-                        : "var(--app-bg)",
+                    backgroundColor: ringing ? "transparent" : "var(--app-bg)",
                     overflow: "hidden",
                 }}
             >
                 <AnalogClock />
+                <WorldClocks currentTime={currentTime} />
             </div>
 
             {/* Controls section - appears below when scrolled */}
@@ -865,10 +840,29 @@ export function App() {
                 }}
             >
                 <div class="mt-5 max-w-md mx-auto flex flex-col gap-3">
+                    <ModeSelector />
+                    {clockMode.value === "timer" && (
+                        <TimerSettings currentTime={currentTime} />
+                    )}
+                    {clockMode.value === "stopwatch" && (
+                        <StopwatchSettings currentTime={currentTime} />
+                    )}
+                    {clockMode.value === "routine" && (
+                        <RoutineSettings currentTime={currentTime} />
+                    )}
                     <FullscreenToggle />
                     <WakeLockToggle />
+                    <InstallButton />
                     <AlarmSettings currentTime={currentTime} />
-                    <DarkModeSettings />
+                    <NotificationSettings />
+                    <NamedTimerSettings currentTime={currentTime} />
+                    <ScheduleSettings />
+                    <TimeZoneSettings />
+                    <VoiceSettings />
+                    <FaceSettings />
+                    <ThemeSettings />
+                    <NightModeSettings />
+                    <ProfileSettings />
                 </div>
                 <footer class="footer-links mt-8 pt-6 text-center flex flex-col items-center gap-3 max-w-md mx-auto">
                     <a
@@ -878,6 +872,9 @@ export function App() {
                     >
                         GitHub
                     </a>
+                    <a href="?debug=history" class="footer-link text-sm">
+                        Hälytyshistoria
+                    </a>
                     <a href="?debug=voices" class="footer-link text-sm">
                         Debug-näkymä
                     </a>
@@ -890,10 +887,14 @@ export function App() {
 window.addEventListener("load", () => {
     // https://stackoverflow.com/q/22812303/153718
     window.speechSynthesis.getVoices();
+    registerServiceWorker();
+    handlePendingAlarmAction();
     const params = new URLSearchParams(window.location.search);
-    const showVoiceDebug = params.get("debug") === "voices";
-    if (showVoiceDebug) {
+    const debug = params.get("debug");
+    if (debug === "voices") {
         render(<VoiceDebug />, document.getElementById("app")!);
+    } else if (debug === "history") {
+        render(<AlarmHistory />, document.getElementById("app")!);
     } else {
         render(<App />, document.getElementById("app")!);
     }
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { migrateParams, URL_SCHEMA_VERSION } from "./migrations";
+
+const legacyLink =
+    "alarmEnabled=true&alarmHours=7&alarmMinutes=15&preAlarmEnabled=true&preAlarmInterval=10";
+
+describe("migrateParams", () => {
+    it("turns the legacy alarm parameters into the alarms list", () => {
+        const params = new URLSearchParams(legacyLink);
+
+        expect(migrateParams(params)).toBe(true);
+        expect(params.get("v")).toBe(String(URL_SCHEMA_VERSION));
+        for (const key of [
+            "alarmEnabled",
+            "alarmHours",
+            "alarmMinutes",
+            "preAlarmEnabled",
+            "preAlarmInterval",
+        ]) {
+            expect(params.has(key)).toBe(false);
+        }
+        expect(JSON.parse(params.get("alarms")!)).toEqual([
+            {
+                id: "default",
+                enabled: true,
+                hours: 7,
+                minutes: 15,
+                twiceADay: true,
+                preAlarmEnabled: true,
+                preAlarmSchedule: {
+                    type: "interval",
+                    interval: 10,
+                    startMinutes: 24 * 60,
+                },
+            },
+        ]);
+    });
+
+    it("keeps an alarms list that is already there", () => {
+        const params = new URLSearchParams(`alarmHours=7&alarms=[]`);
+
+        expect(migrateParams(params)).toBe(true);
+        expect(params.get("alarms")).toBe("[]");
+        expect(params.has("alarmHours")).toBe(false);
+    });
+
+    it("only tags unversioned links without legacy parameters", () => {
+        const params = new URLSearchParams("mode=timer");
+
+        expect(migrateParams(params)).toBe(true);
+        expect(params.toString()).toBe(`mode=timer&v=${URL_SCHEMA_VERSION}`);
+    });
+
+    it("leaves current and empty links alone", () => {
+        const current = new URLSearchParams(
+            `v=${URL_SCHEMA_VERSION}&alarmHours=7`,
+        );
+        expect(migrateParams(current)).toBe(false);
+        expect(current.get("alarmHours")).toBe("7");
+
+        expect(migrateParams(new URLSearchParams())).toBe(false);
+    });
+
+    it("treats a broken version as the first one", () => {
+        const params = new URLSearchParams("v=abc&alarmHours=6");
+
+        expect(migrateParams(params)).toBe(true);
+        expect(params.get("v")).toBe(String(URL_SCHEMA_VERSION));
+        expect(JSON.parse(params.get("alarms")!)[0].hours).toBe(6);
+    });
+});
+
+describe("alarms from the URL", () => {
+    beforeEach(() => {
+        // URL writes left over from the previous test's signals would
+        // replace the link under test
+        vi.useFakeTimers();
+        vi.resetModules();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    async function loadAlarms(search: string) {
+        window.history.replaceState({}, "", `/?${search}`);
+        const { alarms } = await import("./alarm");
+        return alarms.value;
+    }
+
+    it("reads a legacy link as a v2 alarms list", async () => {
+        const [alarm, ...rest] = await loadAlarms(legacyLink);
+
+        expect(rest).toEqual([]);
+        expect(alarm).toMatchObject({
+            id: "default",
+            enabled: true,
+            hours: 7,
+            minutes: 15,
+            twiceADay: true,
+            preAlarmEnabled: true,
+            preAlarmSchedule: {
+                type: "interval",
+                interval: 10,
+                startMinutes: 24 * 60,
+            },
+        });
+        const params = new URLSearchParams(window.location.search);
+        expect(params.get("v")).toBe(String(URL_SCHEMA_VERSION));
+        expect(params.has("alarmHours")).toBe(false);
+    });
+
+    it("falls back to defaults for invalid alarm fields", async () => {
+        const [alarm] = await loadAlarms(
+            `v=2&alarms=${encodeURIComponent(
+                JSON.stringify([
+                    {
+                        id: "a",
+                        hours: 99,
+                        minutes: "abc",
+                        repeat: { type: "days" },
+                        preAlarmSchedule: {
+                            type: "interval",
+                            interval: 5,
+                            startMinutes: 1e12,
+                        },
+                        sound: "siren",
+                        timeZone: "Mars/Olympus",
+                    },
+                ]),
+            )}`,
+        );
+
+        expect(alarm).toMatchObject({
+            id: "a",
+            hours: 8,
+            minutes: 30,
+            preAlarmSchedule: {
+                type: "interval",
+                interval: 5,
+                startMinutes: 60,
+            },
+            sound: "chime",
+            timeZone: null,
+        });
+        expect(alarm?.repeat.type).toBe("days");
+        expect(alarm?.repeat.type === "days" && alarm.repeat.days).toHaveLength(
+            1,
+        );
+    });
+
+    it("keeps a notification action in the hash over URL rewrites", async () => {
+        await loadAlarms(`${legacyLink}#alarm-action=stop:default`);
+        expect(window.location.hash).toBe("#alarm-action=stop:default");
+
+        vi.runAllTimers();
+        expect(window.location.hash).toBe("#alarm-action=stop:default");
+    });
+
+    it("uses the default alarm for a link that is not a list", async () => {
+        const loaded = await loadAlarms("v=2&alarms=abc");
+
+        expect(loaded).toHaveLength(1);
+        expect(loaded[0]?.id).toBe("default");
+    });
+});
@@ -0,0 +1,81 @@
+// Version of the URL parameter layout, stored in the "v" parameter. When a
+// parameter is renamed or changes shape, bump the version and add a
+// migration from the previous one so that old links keep working.
+export const URL_SCHEMA_VERSION = 2;
+
+export const VERSION_PARAM = "v";
+
+type Migration = (params: URLSearchParams) => void;
+
+// Keyed by the version the migration upgrades from. Links from before
+// versioning are version 1.
+const migrations: Record<number, Migration> = {
+    // The single alarm's separate parameters became the alarms list
+    1: (params) => {
+        const legacyKeys = [
+            "alarmEnabled",
+            "alarmHours",
+            "alarmMinutes",
+            "preAlarmEnabled",
+            "preAlarmInterval",
+        ];
+        if (!legacyKeys.some((key) => params.has(key))) return;
+
+        const read = (key: string) => {
+            const saved = params.get(key);
+            if (saved === null) return undefined;
+            try {
+                return JSON.parse(saved);
+            } catch {
+                return undefined;
+            }
+        };
+
+        if (!params.has("alarms")) {
+            // Fields that don't validate are filled in by the alarm codec
+            params.set(
+                "alarms",
+                JSON.stringify([
+                    {
+                        id: "default",
+                        enabled: read("alarmEnabled"),
+                        hours: read("alarmHours"),
+                        minutes: read("alarmMinutes"),
+                        // The old single alarm rang at both AM and PM
+                        twiceADay: true,
+                        preAlarmEnabled: read("preAlarmEnabled"),
+                        preAlarmSchedule: {
+                            type: "interval",
+                            interval: read("preAlarmInterval") ?? 5,
+                            // The old pre-alarm announced all day long
+                            startMinutes: 24 * 60,
+                        },
+                    },
+                ]),
+            );
+        }
+        for (const key of legacyKeys) {
+            params.delete(key);
+        }
+    },
+};
+
+// Upgrade the parameters to the current version. Returns true when
+// something was changed.
+export function migrateParams(params: URLSearchParams): boolean {
+    if ([...params.keys()].every((key) => key === VERSION_PARAM)) {
+        return false;
+    }
+
+    const saved = Number(params.get(VERSION_PARAM) ?? 1);
+    let version = Number.isInteger(saved) && saved > 0 ? saved : 1;
+    if (version >= URL_SCHEMA_VERSION) {
+        return false;
+    }
+
+    for (; version < URL_SCHEMA_VERSION; version++) {
+        migrations[version]?.(params);
+    }
+    params.set(VERSION_PARAM, String(URL_SCHEMA_VERSION));
+    return true;
+}
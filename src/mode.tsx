@@ -0,0 +1,38 @@
+import { urlSignal } from "./utils";
+import { enumCodec } from "./codec";
+
+// What the analog face is used for
+export type ClockMode = "clock" | "timer" | "stopwatch" | "routine";
+
+export const clockModeLabels: Record<ClockMode, string> = {
+    clock: "🕑 Kello",
+    timer: "⏳ Ajastin",
+    stopwatch: "⏱ Sekuntikello",
+    routine: "🔁 Rutiini",
+};
+
+export const clockMode = urlSignal<ClockMode>(
+    "mode",
+    "clock",
+    enumCodec(Object.keys(clockModeLabels) as ClockMode[]),
+);
+
+export function ModeSelector() {
+    return (
+        <div class="settings-card rounded-full p-1 flex gap-1">
+            {Object.entries(clockModeLabels).map(([mode, label]) => (
+                <button
+                    type="button"
+                    onClick={() => (clockMode.value = mode as ClockMode)}
+                    class={`flex-1 px-4 py-3 rounded-full text-sm font-medium transition-colors ${
+                        clockMode.value === mode
+                            ? "bg-blue-500 text-white"
+                            : "hover:bg-[var(--secondary-button-hover)]"
+                    }`}
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,288 @@
+import { signal, computed } from "@preact/signals";
+import { SettingsCard, SettingsRow, CheckboxRow } from "./SettingsCard";
+import { TimeField } from "./TimeField";
+import { parseTimeOfDay, storageSignal } from "./utils";
+import {
+    enumCodec,
+    isRecord,
+    jsonCodec,
+    numberCodec,
+    timeOfDayCodec,
+} from "./codec";
+
+// Night mode for a bedside clock. While active the whole page is covered by
+// a dark layer, the second hand is calmed down and the red theme is used.
+// Touching the dimmed screen lights it up for a moment.
+
+export type NightModeState = "off" | "on" | "schedule";
+export type NightSecondHand = "normal" | "slow" | "hidden";
+
+export interface NightModeSettings {
+    state: NightModeState;
+    start: string;
+    end: string;
+    // 0.05-1, 1 is no dimming
+    brightness: number;
+    secondHand: NightSecondHand;
+    redPalette: boolean;
+}
+
+// How long a touch lights up the dimmed screen
+const WAKE_SECONDS = 10;
+
+const defaultNightMode: NightModeSettings = {
+    state: "off",
+    start: "22:00",
+    end: "07:00",
+    brightness: 0.3,
+    secondHand: "hidden",
+    redPalette: true,
+};
+
+const stateCodec = enumCodec<NightModeState>(["off", "on", "schedule"]);
+const secondHandCodec = enumCodec<NightSecondHand>([
+    "normal",
+    "slow",
+    "hidden",
+]);
+const brightnessCodec = numberCodec(0.05, 1);
+
+// Options added after the settings were saved get their defaults
+const nightModeCodec = jsonCodec((saved): NightModeSettings | undefined => {
+    if (!isRecord(saved)) return undefined;
+    return {
+        state: stateCodec.validate(saved.state) ?? defaultNightMode.state,
+        start: timeOfDayCodec.validate(saved.start) ?? defaultNightMode.start,
+        end: timeOfDayCodec.validate(saved.end) ?? defaultNightMode.end,
+        brightness:
+            brightnessCodec.validate(saved.brightness) ??
+            defaultNightMode.brightness,
+        secondHand:
+            secondHandCodec.validate(saved.secondHand) ??
+            defaultNightMode.secondHand,
+        redPalette:
+            typeof saved.redPalette === "boolean"
+                ? saved.redPalette
+                : defaultNightMode.redPalette,
+    };
+});
+
+export const nightMode = storageSignal(
+    "nightMode",
+    defaultNightMode,
+    nightModeCodec,
+);
+
+function updateNightMode(patch: Partial<NightModeSettings>) {
+    nightMode.value = { ...nightMode.value, ...patch };
+}
+
+// Updated once a minute from the clock's tick loop
+const nightClock = signal(new Date());
+
+// Call once a minute
+export function checkNightMode(currentTime: Date) {
+    nightClock.value = currentTime;
+}
+
+function isWithin(start: string, end: string, currentTime: Date) {
+    const startMinute = parseTimeOfDay(start);
+    const endMinute = parseTimeOfDay(end);
+    if (startMinute === null || endMinute === null) return false;
+
+    const minute = currentTime.getHours() * 60 + currentTime.getMinutes();
+    // Usually over midnight, e.g. 22:00-07:00
+    return startMinute <= endMinute
+        ? minute >= startMinute && minute < endMinute
+        : minute >= startMinute || minute < endMinute;
+}
+
+export const nightModeActive = computed(() => {
+    const settings = nightMode.value;
+    switch (settings.state) {
+        case "on":
+            return true;
+        case "schedule":
+            return isWithin(settings.start, settings.end, nightClock.value);
+        default:
+            return false;
+    }
+});
+
+// Red palette replaces the selected theme while night mode is on
+export const nightPaletteActive = computed(
+    () => nightModeActive.value && nightMode.value.redPalette,
+);
+
+// Accent colours of alarms, timers and routines as a red of about the same
+// brightness while the red palette is on, so no blue or green light is left
+export function nightAccent(color: string): string {
+    if (!nightPaletteActive.value) {
+        return color;
+    }
+    const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+    if (!match) {
+        return "var(--clock-hour-hand)";
+    }
+    const [r, g, b] = match.slice(1).map((hex) => parseInt(hex, 16) / 255);
+    const luminance = 0.2126 * r! + 0.7152 * g! + 0.0722 * b!;
+    const red = Math.round(100 + luminance * 110);
+    const rest = Math.round(red * 0.15);
+    return `rgb(${red}, ${rest}, ${rest})`;
+}
+
+export const nightSecondHand = computed(
+    (): NightSecondHand =>
+        nightModeActive.value ? nightMode.value.secondHand : "normal",
+);
+
+// Lit up by a touch
+const nightAwake = signal(false);
+let wakeTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function wakeScreen() {
+    if (wakeTimeout !== null) {
+        clearTimeout(wakeTimeout);
+    }
+    nightAwake.value = true;
+    wakeTimeout = setTimeout(() => {
+        nightAwake.value = false;
+        wakeTimeout = null;
+    }, WAKE_SECONDS * 1000);
+}
+
+interface NightDimmerProps {
+    // Alarms are always shown at full brightness
+    disabled: boolean;
+}
+
+// Dark layer over the whole page. While dimmed it catches the first touch so
+// that nothing is pressed by accident in the dark.
+export function NightDimmer({ disabled }: NightDimmerProps) {
+    const active = nightModeActive.value && !disabled;
+    const dimmed = active && !nightAwake.value;
+    if (!active) {
+        return null;
+    }
+
+    return (
+        <div
+            class="fixed inset-0 bg-black transition-opacity duration-500"
+            style={{
+                opacity: dimmed ? 1 - nightMode.value.brightness : 0,
+                pointerEvents: dimmed ? "auto" : "none",
+                zIndex: 20000,
+            }}
+            onPointerDown={(e) => {
+                e.preventDefault();
+                wakeScreen();
+            }}
+        />
+    );
+}
+
+export function NightModeSettings() {
+    const settings = nightMode.value;
+
+    return (
+        <SettingsCard>
+            <SettingsRow label="Yötila">
+                <select
+                    value={settings.state}
+                    onInput={(e) =>
+                        updateNightMode({
+                            state: (e.target as HTMLSelectElement)
+                                .value as NightModeState,
+                        })
+                    }
+                    class="themed-field w-36 pl-2 pr-6 py-1 text-xs rounded"
+                >
+                    <option value="off">Pois</option>
+                    <option value="on">Päällä</option>
+                    <option value="schedule">Ajastettu</option>
+                </select>
+            </SettingsRow>
+
+            {settings.state === "schedule" && (
+                <div class="flex items-center gap-3 text-xs">
+                    <TimeField
+                        id="night-mode-start"
+                        label="Alkaa"
+                        value={settings.start}
+                        onInput={(e) => {
+                            const value = (e.target as HTMLInputElement).value;
+                            if (value) updateNightMode({ start: value });
+                        }}
+                        labelClass="themed-subtle-text"
+                        inputClass="themed-field w-24 pl-2 pr-6 py-1 rounded text-xs"
+                    />
+                    <TimeField
+                        id="night-mode-end"
+                        label="Päättyy"
+                        value={settings.end}
+                        onInput={(e) => {
+                            const value = (e.target as HTMLInputElement).value;
+                            if (value) updateNightMode({ end: value });
+                        }}
+                        labelClass="themed-subtle-text"
+                        inputClass="themed-field w-24 pl-2 pr-6 py-1 rounded text-xs"
+                    />
+                </div>
+            )}
+
+            {settings.state !== "off" && (
+                <div class="pt-2 border-t border-[var(--border-subtle)] flex flex-col gap-3">
+                    <SettingsRow
+                        label={`Kirkkaus ${Math.round(settings.brightness * 100)} %`}
+                    >
+                        <input
+                            type="range"
+                            min="0.05"
+                            max="1"
+                            step="0.05"
+                            value={settings.brightness}
+                            onInput={(e) =>
+                                updateNightMode({
+                                    brightness: Number(
+                                        (e.target as HTMLInputElement).value,
+                                    ),
+                                })
+                            }
+                            class="w-32 accent-blue-500"
+                        />
+                    </SettingsRow>
+                    <SettingsRow label="Sekuntiosoitin">
+                        <select
+                            value={settings.secondHand}
+                            onInput={(e) =>
+                                updateNightMode({
+                                    secondHand: (e.target as HTMLSelectElement)
+                                        .value as NightSecondHand,
+                                })
+                            }
+                            class="themed-field w-36 pl-2 pr-6 py-1 text-xs rounded"
+                        >
+                            <option value="normal">Tavallinen</option>
+                            <option value="slow">5 s välein</option>
+                            <option value="hidden">Piilossa</option>
+                        </select>
+                    </SettingsRow>
+                    <CheckboxRow
+                        id="night-mode-red"
+                        label="Punaiset värit"
+                        checked={settings.redPalette}
+                        onChange={() =>
+                            updateNightMode({
+                                redPalette: !settings.redPalette,
+                            })
+                        }
+                    />
+                    <p class="text-xs themed-subtle-text italic">
+                        Kosketus kirkastaa näytön {WAKE_SECONDS} sekunniksi.
+                        Hälytykset näkyvät aina täydellä kirkkaudella.
+                    </p>
+                </div>
+            )}
+        </SettingsCard>
+    );
+}
@@ -0,0 +1,236 @@
+import { signal, computed, effect } from "@preact/signals";
+import { SettingsCard, SettingsRow } from "./SettingsCard";
+import {
+    Alarm,
+    alarms,
+    enabledAlarms,
+    triggeredAlarm,
+    snoozeState,
+    canSnooze,
+    snoozeAlarm,
+    requestDismiss,
+    triggerAlarm,
+    updateAlarm,
+    getNextAlarmTime,
+    formatAlarmTime,
+} from "./alarm";
+
+// Alarms normally ring from the page's tick loop. Where the platform supports
+// Notification Triggers the service worker also schedules a system
+// notification for each alarm so it goes off while the page is closed or the
+// phone is locked. The notification's Snooze/Stop actions are passed back to
+// the page, or to a newly opened page if none is open.
+//
+// Notification Triggers never shipped outside a Chromium trial, so in
+// practice alarms ring only while the page is open. The page says so next to
+// the alarms. With permission the ringing alarm is still shown as a
+// notification when the page is in the background.
+
+const notificationsSupported =
+    "Notification" in window && "serviceWorker" in navigator;
+
+// Can the browser schedule notifications at all
+export const triggersSupported =
+    notificationsSupported && "showTrigger" in Notification.prototype;
+
+export const notificationPermission = signal<NotificationPermission>(
+    notificationsSupported ? Notification.permission : "denied",
+);
+
+// Can alarms ring while the page is not running
+export const backgroundAlarmsAvailable = computed(
+    () => triggersSupported && notificationPermission.value === "granted",
+);
+
+export async function requestNotificationPermission() {
+    if (!notificationsSupported) return;
+    notificationPermission.value = await Notification.requestPermission();
+}
+
+async function getRegistration() {
+    if (!("serviceWorker" in navigator)) return null;
+    return (await navigator.serviceWorker.getRegistration()) ?? null;
+}
+
+// What the alarm notification looks like, shared with the service worker.
+// Snooze is left out once the alarm has no snoozes left.
+function getNotificationContent(alarm: Alarm, snoozable: boolean) {
+    return {
+        title: `⏰ ${alarm.label || "Herätys"}`,
+        options: {
+            tag: `alarm-${alarm.id}`,
+            body: formatAlarmTime(alarm),
+            icon: "/icon.svg",
+            requireInteraction: true,
+            data: { alarmId: alarm.id, url: window.location.href },
+            actions: [
+                ...(snoozable
+                    ? [{ action: "snooze", title: "💤 Torkku" }]
+                    : []),
+                { action: "stop", title: "⏹ Lopeta" },
+            ],
+        },
+    };
+}
+
+// The alarms are sent a moment after a change so that the URL saved for
+// reopening the page already has the new settings
+let scheduleTimeout: ReturnType<typeof setTimeout> | null = null;
+
+effect(() => {
+    // Also rescheduled after an alarm rings to move it to its next time
+    triggeredAlarm.value;
+    const enabled = enabledAlarms.value;
+    const snooze = snoozeState.value;
+    if (!backgroundAlarmsAvailable.value) return;
+
+    if (scheduleTimeout !== null) {
+        clearTimeout(scheduleTimeout);
+    }
+    scheduleTimeout = setTimeout(async () => {
+        // On the first visit the worker is still installing, wait for it
+        // instead of dropping the schedule
+        const registration = await navigator.serviceWorker.ready;
+        const now = new Date();
+        registration.active?.postMessage({
+            type: "schedule-alarms",
+            alarms: enabled.flatMap((alarm) => {
+                const snoozed = snooze?.alarmId === alarm.id ? snooze : null;
+                const next = snoozed?.until ?? getNextAlarmTime(alarm, now);
+                const snoozes = snoozed?.count ?? 0;
+                return next
+                    ? [
+                          {
+                              at: next.getTime(),
+                              ...getNotificationContent(
+                                  alarm,
+                                  snoozes < alarm.maxSnoozes,
+                              ),
+                          },
+                      ]
+                    : [];
+            }),
+        });
+    }, 500);
+});
+
+// Show the ringing alarm as a notification when the page is in the
+// background, so it can be stopped from the lock screen
+effect(() => {
+    const alarm = triggeredAlarm.value;
+    const snoozable = canSnooze.value;
+    if (notificationPermission.value !== "granted") return;
+
+    getRegistration().then(async (registration) => {
+        if (!registration) return;
+        if (alarm && document.visibilityState === "hidden") {
+            const { title, options } = getNotificationContent(alarm, snoozable);
+            await registration.showNotification(title, options);
+        } else if (!alarm) {
+            const shown = await registration.getNotifications();
+            for (const notification of shown) {
+                if (notification.tag.startsWith("alarm-")) {
+                    notification.close();
+                }
+            }
+        }
+    });
+});
+
+// Handle Snooze/Stop pressed in a notification. Stopping goes through the
+// same challenge as the stop button on the page, so an alarm with a
+// challenge can't be turned off from the lock screen.
+export function handleAlarmAction(action: string, alarmId: string) {
+    const ringing = triggeredAlarm.value;
+    if (ringing?.id === alarmId) {
+        if (action === "snooze" && canSnooze.value) {
+            snoozeAlarm();
+        } else if (action === "snooze" || action === "stop") {
+            window.focus();
+            requestDismiss();
+        }
+        return;
+    }
+
+    // Rang from a scheduled notification while the page was closed
+    const alarm = alarms.value.find((a) => a.id === alarmId);
+    if (!alarm || (action !== "snooze" && action !== "stop")) return;
+
+    const snooze = snoozeState.value;
+    const count = snooze?.alarmId === alarmId ? snooze.count : 0;
+
+    if (action === "snooze" && count < alarm.maxSnoozes) {
+        snoozeState.value = {
+            alarmId,
+            until: new Date(Date.now() + alarm.snoozeMinutes * 60 * 1000),
+            count: count + 1,
+        };
+    } else if (alarm.challenge !== "none") {
+        // Ring on the page until the challenge is solved
+        if (!triggeredAlarm.value) {
+            triggerAlarm(alarm);
+            requestDismiss();
+        }
+    } else {
+        snoozeState.value = null;
+        if (alarm.repeat.type === "once") {
+            updateAlarm(alarmId, { enabled: false });
+        }
+    }
+}
+
+if ("serviceWorker" in navigator) {
+    navigator.serviceWorker.addEventListener("message", (e) => {
+        if (e.data?.type === "alarm-action") {
+            handleAlarmAction(e.data.action, e.data.alarmId);
+        }
+    });
+}
+
+// A page opened from a notification gets the action in the hash
+export function handlePendingAlarmAction() {
+    const match = window.location.hash.match(/^#alarm-action=(\w+):(\w+)$/);
+    if (!match) return;
+
+    window.history.replaceState(
+        {},
+        "",
+        `${window.location.pathname}${window.location.search}`,
+    );
+    handleAlarmAction(match[1]!, match[2]!);
+}
+
+export function NotificationSettings() {
+    if (!notificationsSupported) {
+        return null;
+    }
+
+    return (
+        <SettingsCard>
+            <SettingsRow label="Ilmoitukset">
+                {notificationPermission.value === "granted" ? (
+                    <span class="text-xs themed-subtle-text">Sallittu</span>
+                ) : notificationPermission.value === "denied" ? (
+                    <span class="text-xs themed-subtle-text">
+                        Estetty selaimen asetuksista
+                    </span>
+                ) : (
+                    <button
+                        type="button"
+                        onClick={requestNotificationPermission}
+                        class="themed-secondary-button px-3 py-1 text-xs rounded transition-colors"
+                    >
+                        🔔 Salli ilmoitukset
+                    </button>
+                )}
+            </SettingsRow>
+            <p class="text-xs themed-subtle-text italic">
+                {backgroundAlarmsAvailable.value
+                    ? "Hälytykset soivat ilmoituksena myös, kun kello ei ole auki."
+                    : triggersSupported
+                      ? "Salli ilmoitukset, niin hälytykset soivat myös, kun kello ei ole auki."
+                      : "Tämä selain ei osaa ajastaa ilmoituksia, joten hälytykset soivat vain, kun kello on auki. Taustalla soiva hälytys näkyy ilmoituksena."}
+            </p>
+        </SettingsCard>
+    );
+}
@@ -0,0 +1,241 @@
+import { SettingsRow } from "./SettingsCard";
+import { isRecord, jsonCodec, numberCodec } from "./codec";
+
+// When pre-alarm messages are spoken, as minutes before the alarm
+export type PreAlarmSchedule =
+    // Every N minutes, starting startMinutes before the alarm
+    | { type: "interval"; interval: number; startMinutes: number }
+    // At the listed minutes before the alarm
+    | { type: "offsets"; offsets: number[] }
+    // Sparse far away and denser as the alarm gets closer
+    | { type: "tapering"; startMinutes: number };
+
+export type PreAlarmScheduleType = PreAlarmSchedule["type"];
+
+export const preAlarmScheduleLabels: Record<PreAlarmScheduleType, string> = {
+    interval: "Tasaväli",
+    offsets: "Valitut ajat",
+    tapering: "Tihenevä",
+};
+
+const defaultOffsets = [60, 30, 15, 10, 5, 1];
+
+const taperingOffsets = [
+    720, 600, 480, 360, 240, 180, 120, 90, 60, 45, 30, 20, 15, 10, 5, 3, 2, 1,
+];
+
+const startMinuteOptions = [15, 30, 60, 120, 180, 360, 720, 1440];
+
+export function createPreAlarmSchedule(
+    type: PreAlarmScheduleType,
+): PreAlarmSchedule {
+    switch (type) {
+        case "interval":
+            return { type, interval: 5, startMinutes: 60 };
+        case "offsets":
+            return { type, offsets: defaultOffsets };
+        case "tapering":
+            return { type, startMinutes: 120 };
+    }
+}
+
+// Bounded so that building the offsets stays cheap
+const intervalCodec = numberCodec(1, 60, { integer: true });
+const minutesBeforeCodec = numberCodec(1, 24 * 60, { integer: true });
+
+// Schedules from links and imported settings. Invalid fields get the
+// defaults of the type.
+export const preAlarmScheduleCodec = jsonCodec(
+    (saved): PreAlarmSchedule | undefined => {
+        if (!isRecord(saved)) return undefined;
+        switch (saved.type) {
+            case "interval":
+                return {
+                    type: "interval",
+                    interval: intervalCodec.validate(saved.interval) ?? 5,
+                    startMinutes:
+                        minutesBeforeCodec.validate(saved.startMinutes) ?? 60,
+                };
+            case "offsets": {
+                const offsets = Array.isArray(saved.offsets)
+                    ? saved.offsets
+                          .map(minutesBeforeCodec.validate)
+                          .filter((m): m is number => m !== undefined)
+                    : [];
+                return {
+                    type: "offsets",
+                    offsets: offsets.length > 0 ? offsets : defaultOffsets,
+                };
+            }
+            case "tapering":
+                return {
+                    type: "tapering",
+                    startMinutes:
+                        minutesBeforeCodec.validate(saved.startMinutes) ?? 120,
+                };
+            default:
+                return undefined;
+        }
+    },
+);
+
+// Minutes before the alarm at which a message is due, largest first
+export function getPreAlarmOffsets(schedule: PreAlarmSchedule): number[] {
+    switch (schedule.type) {
+        case "interval": {
+            const offsets: number[] = [];
+            const interval = Math.max(1, schedule.interval);
+            for (let m = interval; m <= schedule.startMinutes; m += interval) {
+                offsets.push(m);
+            }
+            return offsets.reverse();
+        }
+        case "offsets":
+            return [...new Set(schedule.offsets)]
+                .filter((m) => m > 0)
+                .sort((a, b) => b - a);
+        case "tapering":
+            return taperingOffsets.filter((m) => m <= schedule.startMinutes);
+    }
+}
+
+export function isPreAlarmDue(
+    schedule: PreAlarmSchedule,
+    minutesUntilAlarm: number,
+): boolean {
+    return getPreAlarmOffsets(schedule).includes(minutesUntilAlarm);
+}
+
+// Upcoming message times before the given alarm time
+export function getUpcomingPreAlarms(
+    schedule: PreAlarmSchedule,
+    alarmTime: Date,
+    currentTime: Date,
+): Date[] {
+    return getPreAlarmOffsets(schedule)
+        .map((m) => new Date(alarmTime.getTime() - m * 60 * 1000))
+        .filter((time) => time > currentTime);
+}
+
+// The typed offsets, or null if any of them would not pass the codec
+function parseOffsets(text: string): number[] | null {
+    const parts = text.split(/[\s,;]+/).filter((part) => part !== "");
+    const offsets = parts
+        .map((part) => minutesBeforeCodec.validate(Number(part)))
+        .filter((m): m is number => m !== undefined);
+    return offsets.length > 0 && offsets.length === parts.length
+        ? offsets
+        : null;
+}
+
+function formatStartMinutes(minutes: number) {
+    return minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+}
+
+interface PreAlarmScheduleSettingsProps {
+    schedule: PreAlarmSchedule;
+    onChange: (schedule: PreAlarmSchedule) => void;
+}
+
+export function PreAlarmScheduleSettings({
+    schedule,
+    onChange,
+}: PreAlarmScheduleSettingsProps) {
+    const startSelect = (startMinutes: number) => (
+        <SettingsRow label="Aloita" muted>
+            <select
+                value={startMinutes}
+                onInput={(e) =>
+                    onChange({
+                        ...schedule,
+                        startMinutes: Number(
+                            (e.target as HTMLSelectElement).value,
+                        ),
+                    } as PreAlarmSchedule)
+                }
+                class="themed-field w-20 pl-2 pr-6 py-1 text-xs rounded"
+            >
+                {startMinuteOptions.map((v) => (
+                    <option value={v}>{formatStartMinutes(v)}</option>
+                ))}
+            </select>
+            <span class="text-xs themed-subtle-text">ennen</span>
+        </SettingsRow>
+    );
+
+    return (
+        <>
+            <SettingsRow label="Aikataulu">
+                <select
+                    value={schedule.type}
+                    onInput={(e) =>
+                        onChange(
+                            createPreAlarmSchedule(
+                                (e.target as HTMLSelectElement)
+                                    .value as PreAlarmScheduleType,
+                            ),
+                        )
+                    }
+                    class="themed-field w-28 pl-2 pr-6 py-1 text-xs rounded"
+                >
+                    {Object.entries(preAlarmScheduleLabels).map(
+                        ([value, label]) => (
+                            <option value={value}>{label}</option>
+                        ),
+                    )}
+                </select>
+            </SettingsRow>
+
+            {schedule.type === "interval" && (
+                <>
+                    <SettingsRow label="Väli" muted>
+                        <select
+                            value={schedule.interval}
+                            onInput={(e) =>
+                                onChange({
+                                    ...schedule,
+                                    interval: Number(
+                                        (e.target as HTMLSelectElement).value,
+                                    ),
+                                })
+                            }
+                            class="themed-field w-20 pl-2 pr-6 py-1 text-xs rounded"
+                        >
+                            {Array.from({ length: 60 }, (_, i) => i + 1).map(
+                                (v) => (
+                                    <option value={v}>{v} min</option>
+                                ),
+                            )}
+                        </select>
+                    </SettingsRow>
+                    {startSelect(schedule.startMinutes)}
+                </>
+            )}
+
+            {schedule.type === "offsets" && (
+                <SettingsRow label="Minuuttia ennen" muted>
+                    <input
+                        type="text"
+                        inputMode="numeric"
+                        value={schedule.offsets.join(", ")}
+                        onChange={(e) => {
+                            const input = e.target as HTMLInputElement;
+                            const offsets = parseOffsets(input.value);
+                            if (offsets) {
+                                onChange({ ...schedule, offsets });
+                                return;
+                            }
+                            alert(
+                                "Anna minuutit pilkuilla erotettuina väliltä 1–1440, esimerkiksi 30, 10, 5.",
+                            );
+                            input.value = schedule.offsets.join(", ");
+                        }}
+                        class="themed-field w-36 px-2 py-1 rounded text-xs"
+                    />
+                </SettingsRow>
+            )}
+
+            {schedule.type === "tapering" && startSelect(schedule.startMinutes)}
+        </>
+    );
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from "vitest";
+import { alarms } from "./alarm";
+import { namedTimers } from "./timers";
+import { speechRate } from "./speech";
+import { applyProfile, parseSettingsFile, profiles } from "./profiles";
+
+vi.mock("./history", () => ({ recordAlarmEvent: vi.fn() }));
+
+function settingsFile(fields: Record<string, unknown>) {
+    return JSON.stringify({ app: "kello", version: 1, ...fields });
+}
+
+describe("parseSettingsFile", () => {
+    it("rejects files that are not settings", () => {
+        expect(() => parseSettingsFile("{")).toThrow();
+        expect(() => parseSettingsFile("null")).toThrow();
+        expect(() => parseSettingsFile('{"app":"other"}')).toThrow();
+        expect(() =>
+            parseSettingsFile(settingsFile({ version: 99 })),
+        ).toThrow();
+    });
+
+    it("drops profiles that are not profiles", () => {
+        const file = parseSettingsFile(
+            settingsFile({
+                profiles: [
+                    { id: "a", name: "Arki", settings: null },
+                    { id: "b", settings: {} },
+                    "c",
+                    { id: "d", name: "Viikonloppu", settings: {} },
+                ],
+            }),
+        );
+
+        expect(file.profiles.map((p) => p.id)).toEqual(["d"]);
+    });
+
+    it("keeps only known settings with valid values", () => {
+        const alarm = { ...alarms.value[0], id: "x", hours: 6 };
+        const file = parseSettingsFile(
+            settingsFile({
+                settings: { alarms: "not a list", unknown: 1 },
+                profiles: [
+                    {
+                        id: "p",
+                        name: "Aamu",
+                        settings: { alarms: [alarm], unknown: 1 },
+                    },
+                ],
+            }),
+        );
+
+        expect(file.settings).toEqual({});
+        expect(Object.keys(file.profiles[0]!.settings)).toEqual(["alarms"]);
+    });
+
+    it("gives profiles that can be applied", () => {
+        const file = parseSettingsFile(
+            settingsFile({
+                profiles: [
+                    {
+                        id: "p",
+                        name: "Aamu",
+                        settings: { alarms: [{ id: "y", hours: 5 }] },
+                    },
+                ],
+            }),
+        );
+        profiles.value = file.profiles;
+
+        applyProfile("p");
+        expect(alarms.value).toHaveLength(1);
+        expect(alarms.value[0]).toMatchObject({ id: "y", hours: 5 });
+    });
+
+    it("includes speech settings and named timers, stopped", () => {
+        const file = parseSettingsFile(
+            settingsFile({
+                profiles: [
+                    {
+                        id: "k",
+                        name: "Keittiö",
+                        settings: {
+                            speechRate: 1.5,
+                            timers: [
+                                {
+                                    id: "t",
+                                    name: "Munat",
+                                    durationMinutes: 8,
+                                    endsAt: 1,
+                                    pausedRemaining: null,
+                                    ringing: true,
+                                },
+                            ],
+                        },
+                    },
+                ],
+            }),
+        );
+        profiles.value = file.profiles;
+
+        applyProfile("k");
+        expect(speechRate.value).toBe(1.5);
+        expect(namedTimers.value).toEqual([
+            {
+                id: "t",
+                name: "Munat",
+                durationMinutes: 8,
+                endsAt: null,
+                pausedRemaining: null,
+                ringing: false,
+            },
+        ]);
+    });
+});
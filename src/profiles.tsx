@@ -0,0 +1,321 @@
+import { signal, effect, batch } from "@preact/signals";
+import { useRef, useState } from "preact/hooks";
+import { SettingsCard } from "./SettingsCard";
+import { settingsRegistry } from "./utils";
+import { arrayCodec, isRecord } from "./codec";
+
+// All settings created with urlSignal or storageSignal form one model
+// that can be exported to a file, imported on another device and saved as
+// named profiles. The alarm history is not a setting.
+
+export const SETTINGS_VERSION = 1;
+
+export type SettingsValues = Record<string, unknown>;
+
+export interface Profile {
+    id: string;
+    name: string;
+    settings: SettingsValues;
+}
+
+export interface SettingsFile {
+    app: "kello";
+    version: number;
+    exportedAt: string;
+    settings: SettingsValues;
+    profiles: Profile[];
+}
+
+function validateProfile(value: unknown): Profile | undefined {
+    if (
+        !isRecord(value) ||
+        typeof value.id !== "string" ||
+        typeof value.name !== "string" ||
+        !isRecord(value.settings)
+    ) {
+        return undefined;
+    }
+    return { id: value.id, name: value.name, settings: value.settings };
+}
+
+// Each value is checked again by applySettings, so only the shape matters
+const profilesCodec = arrayCodec(validateProfile);
+
+function loadProfiles(): Profile[] {
+    const saved = window.localStorage.getItem("profiles");
+    if (saved === null) return [];
+    return profilesCodec.parse(saved) ?? [];
+}
+
+// Known settings with valid values, the rest is left out
+function validateSettings(value: unknown): SettingsValues {
+    const settings: SettingsValues = {};
+    if (!isRecord(value)) return settings;
+    for (const [key, entry] of settingsRegistry) {
+        const valid = key in value ? entry.validate(value[key]) : undefined;
+        if (valid !== undefined) {
+            settings[key] = valid;
+        }
+    }
+    return settings;
+}
+
+export const profiles = signal<Profile[]>(loadProfiles());
+export const activeProfileId = signal<string | null>(
+    window.localStorage.getItem("activeProfile"),
+);
+
+effect(() => {
+    window.localStorage.setItem("profiles", JSON.stringify(profiles.value));
+    if (activeProfileId.value === null) {
+        window.localStorage.removeItem("activeProfile");
+    } else {
+        window.localStorage.setItem("activeProfile", activeProfileId.value);
+    }
+});
+
+// Copy of the current values of all settings
+export function getCurrentSettings(): SettingsValues {
+    const settings: SettingsValues = {};
+    for (const [key, { signal }] of settingsRegistry) {
+        settings[key] = signal.value;
+    }
+    return JSON.parse(JSON.stringify(settings));
+}
+
+// Set every setting in one go. Settings missing from the values go back to
+// their defaults so that a profile always gives the same result.
+export function applySettings(settings: SettingsValues) {
+    batch(() => {
+        for (const [key, entry] of settingsRegistry) {
+            // Invalid values fall back to the default like in the URL
+            const value =
+                key in settings ? entry.validate(settings[key]) : undefined;
+            entry.signal.value = value ?? entry.initialValue;
+        }
+    });
+}
+
+export function applyProfile(id: string) {
+    const profile = profiles.value.find((p) => p.id === id);
+    if (!profile) return;
+    applySettings(profile.settings);
+    activeProfileId.value = id;
+}
+
+export function saveProfile(name: string) {
+    const profile: Profile = {
+        id: Math.random().toString(36).substring(2, 10),
+        name,
+        settings: getCurrentSettings(),
+    };
+    profiles.value = [...profiles.value, profile];
+    activeProfileId.value = profile.id;
+}
+
+function updateProfileSettings(id: string) {
+    profiles.value = profiles.value.map((p) =>
+        p.id === id ? { ...p, settings: getCurrentSettings() } : p,
+    );
+}
+
+function removeProfile(id: string) {
+    profiles.value = profiles.value.filter((p) => p.id !== id);
+    if (activeProfileId.value === id) {
+        activeProfileId.value = null;
+    }
+}
+
+export function createSettingsFile(): SettingsFile {
+    return {
+        app: "kello",
+        version: SETTINGS_VERSION,
+        exportedAt: new Date().toISOString(),
+        settings: getCurrentSettings(),
+        profiles: profiles.value,
+    };
+}
+
+// Throws with a message for the user when the file can't be used
+export function parseSettingsFile(text: string): SettingsFile {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("Tiedosto ei ole JSON-muotoinen.");
+    }
+
+    if (
+        !isRecord(data) ||
+        data.app !== "kello" ||
+        typeof data.version !== "number"
+    ) {
+        throw new Error("Tiedosto ei ole kellon asetustiedosto.");
+    }
+    if (data.version > SETTINGS_VERSION) {
+        throw new Error(
+            "Asetukset on tallennettu uudemmalla versiolla. Päivitä sivu.",
+        );
+    }
+
+    return {
+        app: "kello",
+        version: data.version,
+        exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : "",
+        settings: validateSettings(data.settings),
+        profiles: (profilesCodec.validate(data.profiles) ?? []).map(
+            (profile) => ({
+                ...profile,
+                settings: validateSettings(profile.settings),
+            }),
+        ),
+    };
+}
+
+// Apply the file's settings and add its profiles, replacing ones with the
+// same id
+export function importSettingsFile(file: SettingsFile) {
+    const imported = new Set(file.profiles.map((p) => p.id));
+    batch(() => {
+        applySettings(file.settings);
+        profiles.value = [
+            ...profiles.value.filter((p) => !imported.has(p.id)),
+            ...file.profiles,
+        ];
+        activeProfileId.value = null;
+    });
+}
+
+function downloadSettings() {
+    const blob = new Blob([JSON.stringify(createSettingsFile(), null, 2)], {
+        type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `kello-asetukset-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+async function uploadSettings(input: HTMLInputElement) {
+    const selected = input.files?.[0];
+    // Allow picking the same file again
+    input.value = "";
+    if (!selected) return;
+
+    try {
+        importSettingsFile(parseSettingsFile(await selected.text()));
+    } catch (err) {
+        console.error("Failed to import settings:", err);
+        alert(
+            err instanceof Error
+                ? err.message
+                : "Asetusten tuonti epäonnistui.",
+        );
+    }
+}
+
+const pillClass =
+    "themed-secondary-button px-3 py-1 text-xs rounded-full border border-[var(--border-subtle)] transition-colors";
+
+export function ProfileSettings() {
+    const [name, setName] = useState("");
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const addProfile = () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        saveProfile(trimmed);
+        setName("");
+    };
+
+    return (
+        <SettingsCard>
+            <span class="text-sm themed-muted-text">Profiilit</span>
+
+            {profiles.value.map((profile) => (
+                <div key={profile.id} class="flex items-center gap-2">
+                    <button
+                        type="button"
+                        onClick={() => applyProfile(profile.id)}
+                        class={`flex-1 px-3 py-2 text-sm text-left rounded-xl transition-colors ${
+                            activeProfileId.value === profile.id
+                                ? "bg-blue-500 text-white"
+                                : "themed-secondary-button border border-[var(--border-subtle)]"
+                        }`}
+                    >
+                        {profile.name}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => updateProfileSettings(profile.id)}
+                        title="Tallenna nykyiset asetukset tähän profiiliin"
+                        class="themed-secondary-button px-2 py-1 text-sm rounded transition-colors"
+                    >
+                        💾
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => removeProfile(profile.id)}
+                        class="themed-secondary-button px-2 py-1 text-sm rounded transition-colors"
+                    >
+                        🗑️
+                    </button>
+                </div>
+            ))}
+
+            <form
+                class="flex items-center gap-2"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    addProfile();
+                }}
+            >
+                <input
+                    type="text"
+                    value={name}
+                    onInput={(e) =>
+                        setName((e.target as HTMLInputElement).value)
+                    }
+                    placeholder="Esim. Makuuhuone arkena"
+                    class="themed-field flex-1 min-w-0 px-2 py-1 rounded text-xs"
+                />
+                <button type="submit" disabled={!name.trim()} class={pillClass}>
+                    ➕ Tallenna profiiliksi
+                </button>
+            </form>
+
+            <div class="pt-2 border-t border-[var(--border-subtle)] flex flex-wrap gap-2">
+                <button
+                    type="button"
+                    onClick={downloadSettings}
+                    class={pillClass}
+                >
+                    ⬇️ Vie asetukset
+                </button>
+                <button
+                    type="button"
+                    onClick={() => fileInput.current?.click()}
+                    class={pillClass}
+                >
+                    ⬆️ Tuo asetukset
+                </button>
+                <input
+                    ref={fileInput}
+                    type="file"
+                    accept="application/json,.json"
+                    class="hidden"
+                    onChange={(e) =>
+                        uploadSettings(e.target as HTMLInputElement)
+                    }
+                />
+            </div>
+            <p class="text-xs themed-subtle-text italic">
+                Profiili sisältää hälytykset, ajastimet, puheäänen, teeman ja
+                näyttöasetukset. Asetustiedostolla ne siirtyvät toiselle
+                laitteelle.
+            </p>
+        </SettingsCard>
+    );
+}
@@ -0,0 +1,96 @@
+import { signal } from "@preact/signals";
+import { Tooltip } from "./Tooltip";
+
+// Chrome's install prompt event, not in the DOM typings
+interface BeforeInstallPromptEvent extends Event {
+    prompt(): Promise<void>;
+    userChoice: Promise<{ outcome: "accepted" | "dismissed" }>;
+}
+
+declare global {
+    interface WindowEventMap {
+        beforeinstallprompt: BeforeInstallPromptEvent;
+    }
+
+    interface Navigator {
+        // Set in apps added to the iOS home screen
+        standalone?: boolean;
+    }
+}
+
+const installPrompt = signal<BeforeInstallPromptEvent | null>(null);
+
+function getDisplayMode() {
+    if (window.matchMedia("(display-mode: fullscreen)").matches) {
+        return "fullscreen";
+    }
+    if (
+        window.matchMedia("(display-mode: standalone)").matches ||
+        window.navigator.standalone === true
+    ) {
+        return "standalone";
+    }
+    return "browser";
+}
+
+// How the page is shown. "fullscreen" when launched from the home screen
+// without any browser UI, "standalone" when installed.
+export const displayMode = signal(getDisplayMode());
+
+for (const mode of ["fullscreen", "standalone"]) {
+    window
+        .matchMedia(`(display-mode: ${mode})`)
+        .addEventListener("change", () => {
+            displayMode.value = getDisplayMode();
+        });
+}
+
+window.addEventListener("beforeinstallprompt", (e) => {
+    // Show our own install button instead of the browser's mini-infobar
+    e.preventDefault();
+    installPrompt.value = e;
+});
+
+window.addEventListener("appinstalled", () => {
+    installPrompt.value = null;
+});
+
+// Call after the page has loaded. Only the built app is cached, the dev
+// server serves modules that change on every edit.
+export function registerServiceWorker() {
+    if (!import.meta.env.PROD || !("serviceWorker" in navigator)) {
+        return;
+    }
+
+    navigator.serviceWorker.register("/sw.js").catch((err) => {
+        console.error("Service workerin rekisteröinti epäonnistui:", err);
+    });
+}
+
+async function install() {
+    const prompt = installPrompt.value;
+    if (!prompt) return;
+
+    await prompt.prompt();
+    await prompt.userChoice;
+    // The event can be used only once
+    installPrompt.value = null;
+}
+
+export function InstallButton() {
+    if (!installPrompt.value || displayMode.value !== "browser") {
+        return null;
+    }
+
+    return (
+        <Tooltip content="Asenna kello sovellukseksi, toimii myös ilman verkkoa">
+            <button
+                type="button"
+                onClick={install}
+                class="themed-secondary-button w-full px-4 py-3 text-sm rounded-2xl transition-colors"
+            >
+                📲 Asenna sovellus
+            </button>
+        </Tooltip>
+    );
+}
@@ -0,0 +1,150 @@
+import { isRecord, jsonCodec, numberCodec } from "./codec";
+
+// Repeat rules for alarms. Days are numbered like Date.getDay(): 0 = Sunday.
+export type AlarmRepeat =
+    // One-off alarm, on the given date (YYYY-MM-DD) or the next matching time
+    | { type: "once"; date?: string }
+    | { type: "weekdays" }
+    | { type: "weekends" }
+    | { type: "days"; days: number[] }
+    // Every N days counting from the start date (YYYY-MM-DD)
+    | { type: "everyNDays"; interval: number; startDate: string };
+
+export type AlarmRepeatType = AlarmRepeat["type"];
+
+export const repeatTypeLabels: Record<AlarmRepeatType, string> = {
+    once: "Kerran",
+    weekdays: "Arkipäivisin",
+    weekends: "Viikonloppuisin",
+    days: "Valittuina päivinä",
+    everyNDays: "Joka N. päivä",
+};
+
+// Monday first, as in Finnish calendars
+export const weekdayLabels: [day: number, label: string][] = [
+    [1, "Ma"],
+    [2, "Ti"],
+    [3, "Ke"],
+    [4, "To"],
+    [5, "Pe"],
+    [6, "La"],
+    [0, "Su"],
+];
+
+export function formatDateKey(date: Date) {
+    const y = date.getFullYear();
+    const m = (date.getMonth() + 1).toString().padStart(2, "0");
+    const d = date.getDate().toString().padStart(2, "0");
+    return `${y}-${m}-${d}`;
+}
+
+function parseDateKey(key: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+    if (!match) return null;
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+// Whole calendar days from a to b, unaffected by DST
+function daysBetween(a: Date, b: Date) {
+    const utcA = Date.UTC(a.getFullYear(), a.getMonth(), a.getDate());
+    const utcB = Date.UTC(b.getFullYear(), b.getMonth(), b.getDate());
+    return Math.round((utcB - utcA) / (24 * 60 * 60 * 1000));
+}
+
+const weekdayCodec = numberCodec(0, 6, { integer: true });
+const intervalCodec = numberCodec(1, 365, { integer: true });
+
+function validateDateKey(value: unknown): string | undefined {
+    return typeof value === "string" && parseDateKey(value) !== null
+        ? value
+        : undefined;
+}
+
+// Rules from links and imported settings. Broken fields would make
+// occursOnDate throw, so they are replaced by the defaults of the type.
+export const repeatCodec = jsonCodec((saved): AlarmRepeat | undefined => {
+    if (!isRecord(saved)) return undefined;
+    switch (saved.type) {
+        case "once": {
+            const date = validateDateKey(saved.date);
+            return date ? { type: "once", date } : { type: "once" };
+        }
+        case "weekdays":
+        case "weekends":
+            return { type: saved.type };
+        case "days": {
+            const days = Array.isArray(saved.days)
+                ? saved.days
+                      .map(weekdayCodec.validate)
+                      .filter((day): day is number => day !== undefined)
+                : [];
+            return days.length > 0
+                ? { type: "days", days: [...new Set(days)] }
+                : createRepeat("days");
+        }
+        case "everyNDays":
+            return {
+                type: "everyNDays",
+                interval: intervalCodec.validate(saved.interval) ?? 2,
+                startDate:
+                    validateDateKey(saved.startDate) ??
+                    formatDateKey(new Date()),
+            };
+        default:
+            return undefined;
+    }
+});
+
+export function createRepeat(
+    type: AlarmRepeatType,
+    today = new Date(),
+): AlarmRepeat {
+    switch (type) {
+        case "once":
+        case "weekdays":
+        case "weekends":
+            return { type };
+        case "days":
+            return { type, days: [today.getDay()] };
+        case "everyNDays":
+            return { type, interval: 2, startDate: formatDateKey(today) };
+    }
+}
+
+// Does the repeat rule allow the alarm to ring on the date of the given day
+export function occursOnDate(repeat: AlarmRepeat, day: Date): boolean {
+    const weekday = day.getDay();
+
+    switch (repeat.type) {
+        case "once":
+            return !repeat.date || repeat.date === formatDateKey(day);
+        case "weekdays":
+            return weekday >= 1 && weekday <= 5;
+        case "weekends":
+            return weekday === 0 || weekday === 6;
+        case "days":
+            return repeat.days.includes(weekday);
+        case "everyNDays": {
+            const start = parseDateKey(repeat.startDate);
+            if (!start || repeat.interval < 1) return false;
+            const days = daysBetween(start, day);
+            return days >= 0 && days % repeat.interval === 0;
+        }
+    }
+}
+
+export function describeRepeat(repeat: AlarmRepeat): string {
+    switch (repeat.type) {
+        case "once":
+            return repeat.date ? `Kerran ${repeat.date}` : "Kerran";
+        case "days":
+            return weekdayLabels
+                .filter(([day]) => repeat.days.includes(day))
+                .map(([, label]) => label)
+                .join(" ");
+        case "everyNDays":
+            return `Joka ${repeat.interval}. päivä`;
+        default:
+            return repeatTypeLabels[repeat.type];
+    }
+}
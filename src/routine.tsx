@@ -0,0 +1,547 @@
+import { signal, computed, Signal } from "@preact/signals";
+import { SettingsCard, SettingsRow, CheckboxRow } from "./SettingsCard";
+import { playDing } from "./sounds";
+import { speakMessage, voice } from "./speech";
+import { formatDuration } from "./timer";
+import { describeArc, urlSignal } from "./utils";
+import { nightAccent } from "./night";
+import { displayTimeZone, toZonedTime } from "./timezone";
+import { arrayCodec, isRecord, numberCodec } from "./codec";
+
+export interface RoutineStep {
+    name: string;
+    minutes: number;
+}
+
+// Sequence of timed steps repeated for the given rounds, optionally followed
+// by a final step, e.g. 25 min work / 5 min break ×4 and a 15 min long break
+export interface Routine {
+    id: string;
+    name: string;
+    steps: RoutineStep[];
+    rounds: number;
+    finalStep: RoutineStep | null;
+}
+
+// Arc colours by step position, the final step always uses the last one
+const stepColors = ["#e53e3e", "#38a169", "#d69e2e", "#805ad5", "#3182ce"];
+const finalStepColor = "#3182ce";
+
+function createRoutineId() {
+    return Math.random().toString(36).substring(2, 10);
+}
+
+export function createPomodoroRoutine(): Routine {
+    return {
+        id: "pomodoro",
+        name: "Pomodoro",
+        steps: [
+            { name: "Työ", minutes: 25 },
+            { name: "Tauko", minutes: 5 },
+        ],
+        rounds: 4,
+        finalStep: { name: "Pitkä tauko", minutes: 15 },
+    };
+}
+
+const minutesCodec = numberCodec(1, 24 * 60);
+// Shared by the codec and the rounds select so every valid value can be shown
+const MAX_ROUNDS = 99;
+const roundsCodec = numberCodec(1, MAX_ROUNDS, { integer: true });
+
+function validateStep(saved: unknown): RoutineStep | undefined {
+    if (!isRecord(saved)) return undefined;
+    const minutes = minutesCodec.validate(saved.minutes);
+    if (minutes === undefined) return undefined;
+    return {
+        name: typeof saved.name === "string" ? saved.name : "",
+        minutes,
+    };
+}
+
+function validateRoutine(saved: unknown): Routine | undefined {
+    if (!isRecord(saved) || typeof saved.id !== "string") return undefined;
+    const steps = Array.isArray(saved.steps)
+        ? saved.steps
+              .map(validateStep)
+              .filter((step): step is RoutineStep => step !== undefined)
+        : [];
+    if (steps.length === 0) return undefined;
+    return {
+        id: saved.id,
+        name: typeof saved.name === "string" ? saved.name : "",
+        steps,
+        rounds: roundsCodec.validate(saved.rounds) ?? 1,
+        finalStep: validateStep(saved.finalStep) ?? null,
+    };
+}
+
+export const routines = urlSignal<Routine[]>(
+    "routines",
+    [createPomodoroRoutine()],
+    arrayCodec(validateRoutine),
+);
+
+export interface ExpandedStep extends RoutineStep {
+    color: string;
+    round: number;
+}
+
+// All steps of the routine in the order they are run
+export function expandRoutine(routine: Routine): ExpandedStep[] {
+    const expanded: ExpandedStep[] = [];
+    for (let round = 1; round <= routine.rounds; round++) {
+        routine.steps.forEach((step, i) => {
+            expanded.push({
+                ...step,
+                color: stepColors[i % stepColors.length]!,
+                round,
+            });
+        });
+    }
+    if (routine.finalStep) {
+        expanded.push({
+            ...routine.finalStep,
+            color: finalStepColor,
+            round: routine.rounds,
+        });
+    }
+    return expanded.filter((step) => step.minutes > 0);
+}
+
+interface RoutineRun {
+    routineId: string;
+    stepIndex: number;
+    // When the current step ends, in epoch milliseconds
+    stepEndsAt: number | null;
+    // Time left of the current step while paused
+    pausedRemaining: number | null;
+}
+
+export const routineRun = signal<RoutineRun | null>(null);
+
+export const runningRoutine = computed(() => {
+    const run = routineRun.value;
+    if (!run) return null;
+
+    const routine = routines.value.find((r) => r.id === run.routineId);
+    if (!routine) return null;
+
+    const steps = expandRoutine(routine);
+    const step = steps[run.stepIndex];
+    if (!step) return null;
+
+    return { run, routine, steps, step };
+});
+
+export function getStepRemaining(run: RoutineRun, currentTime: Date) {
+    if (run.pausedRemaining !== null) {
+        return run.pausedRemaining;
+    }
+    return Math.max(0, (run.stepEndsAt ?? 0) - currentTime.getTime());
+}
+
+async function announceStep(step: RoutineStep) {
+    await playDing();
+    if (!("speechSynthesis" in window) || !window.speechSynthesis) {
+        return;
+    }
+    const minuteWord = voice.value?.lang.startsWith("fi")
+        ? "minuuttia"
+        : "minutes";
+    await speakMessage(`${step.name}, ${step.minutes} ${minuteWord}`);
+}
+
+async function announceFinished(routine: Routine) {
+    await playDing();
+    if (!("speechSynthesis" in window) || !window.speechSynthesis) {
+        return;
+    }
+    await speakMessage(
+        voice.value?.lang.startsWith("fi")
+            ? `${routine.name} valmis`
+            : `${routine.name} finished`,
+    );
+}
+
+function startStep(routineId: string, stepIndex: number, step: RoutineStep) {
+    routineRun.value = {
+        routineId,
+        stepIndex,
+        stepEndsAt: Date.now() + step.minutes * 60 * 1000,
+        pausedRemaining: null,
+    };
+    announceStep(step);
+}
+
+export function startRoutine(routine: Routine) {
+    const first = expandRoutine(routine)[0];
+    if (first) {
+        startStep(routine.id, 0, first);
+    }
+}
+
+// Move on to the next step or finish the routine after the last one
+export function nextRoutineStep() {
+    const current = runningRoutine.value;
+    if (!current) return;
+
+    const nextIndex = current.run.stepIndex + 1;
+    const next = current.steps[nextIndex];
+    if (next) {
+        startStep(current.routine.id, nextIndex, next);
+    } else {
+        routineRun.value = null;
+        announceFinished(current.routine);
+    }
+}
+
+export function pauseRoutine() {
+    const run = routineRun.value;
+    if (!run || run.stepEndsAt === null) return;
+    routineRun.value = {
+        ...run,
+        stepEndsAt: null,
+        pausedRemaining: Math.max(0, run.stepEndsAt - Date.now()),
+    };
+}
+
+export function resumeRoutine() {
+    const run = routineRun.value;
+    if (!run || run.pausedRemaining === null) return;
+    routineRun.value = {
+        ...run,
+        stepEndsAt: Date.now() + run.pausedRemaining,
+        pausedRemaining: null,
+    };
+}
+
+export function stopRoutine() {
+    routineRun.value = null;
+}
+
+// Has the current step run out
+export function checkRoutine(currentTime: Date): boolean {
+    const run = routineRun.value;
+    return (
+        run !== null &&
+        run.stepEndsAt !== null &&
+        currentTime.getTime() >= run.stepEndsAt
+    );
+}
+
+interface RoutineProps {
+    currentTime: Signal<Date>;
+}
+
+// Arc along the rim from the current minute to where the step ends
+export function RoutineArc({ currentTime }: RoutineProps) {
+    const current = runningRoutine.value;
+    if (!current) {
+        return null;
+    }
+
+    const now = currentTime.value;
+    const remaining = getStepRemaining(current.run, now);
+    // Starts from the minute hand, which shows the display zone's time
+    const face = toZonedTime(now, displayTimeZone.value);
+    const startAngle = (face.getMinutes() + face.getSeconds() / 60) * 6;
+    const sweep = (remaining / (60 * 60 * 1000)) * 360;
+
+    return (
+        <g style={{ pointerEvents: "none" }}>
+            {sweep > 0 && (
+                <path
+                    d={describeArc(45, startAngle, startAngle + sweep)}
+                    fill="none"
+                    stroke={nightAccent(current.step.color)}
+                    stroke-width="3"
+                    stroke-linecap="round"
+                    stroke-opacity={
+                        current.run.pausedRemaining !== null ? 0.4 : 0.8
+                    }
+                />
+            )}
+            <text
+                x="50"
+                y="66"
+                text-anchor="middle"
+                dominant-baseline="central"
+                font-size="4"
+                font-family="Arial, sans-serif"
+                font-weight="bold"
+                fill={nightAccent(current.step.color)}
+            >
+                {current.step.name} {formatDuration(remaining)}
+            </text>
+        </g>
+    );
+}
+
+function updateRoutine(id: string, patch: Partial<Routine>) {
+    routines.value = routines.value.map((r) =>
+        r.id === id ? { ...r, ...patch } : r,
+    );
+}
+
+function addRoutine() {
+    routines.value = [
+        ...routines.value,
+        {
+            id: createRoutineId(),
+            name: `Rutiini ${routines.value.length + 1}`,
+            steps: [{ name: "Vaihe 1", minutes: 10 }],
+            rounds: 1,
+            finalStep: null,
+        },
+    ];
+}
+
+function removeRoutine(id: string) {
+    if (routineRun.value?.routineId === id) {
+        stopRoutine();
+    }
+    routines.value = routines.value.filter((r) => r.id !== id);
+}
+
+interface StepFieldsProps {
+    step: RoutineStep;
+    color: string;
+    onChange: (step: RoutineStep) => void;
+    onRemove?: () => void;
+}
+
+function StepFields({ step, color, onChange, onRemove }: StepFieldsProps) {
+    return (
+        <div class="flex items-center gap-2">
+            <span
+                class="w-3 h-3 rounded-full shrink-0"
+                style={{ backgroundColor: color }}
+            />
+            <input
+                type="text"
+                value={step.name}
+                onChange={(e) =>
+                    onChange({
+                        ...step,
+                        name: (e.target as HTMLInputElement).value,
+                    })
+                }
+                class="themed-field flex-1 min-w-0 px-2 py-1 rounded text-xs"
+            />
+            <input
+                type="number"
+                min={1}
+                max={999}
+                value={step.minutes}
+                onChange={(e) => {
+                    const minutes = Number(
+                        (e.target as HTMLInputElement).value,
+                    );
+                    if (minutes > 0) {
+                        onChange({ ...step, minutes });
+                    }
+                }}
+                class="themed-field w-16 px-2 py-1 rounded text-xs"
+            />
+            <span class="text-xs themed-subtle-text">min</span>
+            {onRemove && (
+                <button
+                    type="button"
+                    onClick={onRemove}
+                    class="themed-secondary-button px-2 py-1 text-xs rounded transition-colors"
+                >
+                    ✖
+                </button>
+            )}
+        </div>
+    );
+}
+
+interface RoutineRowProps {
+    routine: Routine;
+    currentTime: Date;
+}
+
+function RoutineRow({ routine, currentTime }: RoutineRowProps) {
+    const current = runningRoutine.value;
+    const isRunning = current?.routine.id === routine.id;
+    const paused = isRunning && current.run.pausedRemaining !== null;
+
+    const setStep = (index: number, step: RoutineStep) =>
+        updateRoutine(routine.id, {
+            steps: routine.steps.map((s, i) => (i === index ? step : s)),
+        });
+
+    return (
+        <SettingsCard>
+            <input
+                type="text"
+                value={routine.name}
+                onChange={(e) =>
+                    updateRoutine(routine.id, {
+                        name: (e.target as HTMLInputElement).value,
+                    })
+                }
+                class="themed-field w-full px-2 py-1 rounded text-sm font-medium"
+            />
+
+            {routine.steps.map((step, i) => (
+                <StepFields
+                    step={step}
+                    color={stepColors[i % stepColors.length]!}
+                    onChange={(s) => setStep(i, s)}
+                    onRemove={
+                        routine.steps.length > 1
+                            ? () =>
+                                  updateRoutine(routine.id, {
+                                      steps: routine.steps.filter(
+                                          (_, j) => j !== i,
+                                      ),
+                                  })
+                            : undefined
+                    }
+                />
+            ))}
+
+            <button
+                type="button"
+                onClick={() =>
+                    updateRoutine(routine.id, {
+                        steps: [
+                            ...routine.steps,
+                            {
+                                name: `Vaihe ${routine.steps.length + 1}`,
+                                minutes: 5,
+                            },
+                        ],
+                    })
+                }
+                class="themed-secondary-button self-start px-3 py-1 text-xs rounded-full border border-[var(--border-subtle)] transition-colors"
+            >
+                ➕ Lisää vaihe
+            </button>
+
+            <SettingsRow label="Toistoja">
+                <select
+                    value={routine.rounds}
+                    onInput={(e) =>
+                        updateRoutine(routine.id, {
+                            rounds: Number(
+                                (e.target as HTMLSelectElement).value,
+                            ),
+                        })
+                    }
+                    class="themed-field w-20 pl-2 pr-6 py-1 text-xs rounded"
+                >
+                    {Array.from({ length: MAX_ROUNDS }, (_, i) => i + 1).map(
+                        (v) => (
+                            <option value={v}>×{v}</option>
+                        ),
+                    )}
+                </select>
+            </SettingsRow>
+
+            <CheckboxRow
+                id={`routine-final-${routine.id}`}
+                label="Lopuksi erillinen vaihe"
+                checked={routine.finalStep !== null}
+                onChange={() =>
+                    updateRoutine(routine.id, {
+                        finalStep: routine.finalStep
+                            ? null
+                            : { name: "Pitkä tauko", minutes: 15 },
+                    })
+                }
+            >
+                {routine.finalStep && (
+                    <StepFields
+                        step={routine.finalStep}
+                        color={finalStepColor}
+                        onChange={(finalStep) =>
+                            updateRoutine(routine.id, { finalStep })
+                        }
+                    />
+                )}
+            </CheckboxRow>
+
+            {isRunning && (
+                <div class="text-sm themed-muted-text">
+                    Vaihe {current.run.stepIndex + 1}/{current.steps.length}:{" "}
+                    <span class="font-bold">{current.step.name}</span>{" "}
+                    <span class="font-mono">
+                        {formatDuration(
+                            getStepRemaining(current.run, currentTime),
+                        )}
+                    </span>
+                </div>
+            )}
+
+            <div class="pt-1 border-t border-[var(--border-subtle)] flex gap-2">
+                {isRunning ? (
+                    <>
+                        <button
+                            type="button"
+                            onClick={paused ? resumeRoutine : pauseRoutine}
+                            class="themed-secondary-button flex-1 px-4 py-2 text-sm rounded-lg transition-colors"
+                        >
+                            {paused ? "▶ Jatka" : "⏸ Tauko"}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={nextRoutineStep}
+                            class="themed-secondary-button flex-1 px-4 py-2 text-sm rounded-lg transition-colors"
+                        >
+                            ⏭ Seuraava
+                        </button>
+                        <button
+                            type="button"
+                            onClick={stopRoutine}
+                            class="themed-secondary-button flex-1 px-4 py-2 text-sm rounded-lg transition-colors"
+                        >
+                            ⏹ Lopeta
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        <button
+                            type="button"
+                            onClick={() => startRoutine(routine)}
+                            class="themed-secondary-button flex-1 px-4 py-2 text-sm rounded-lg transition-colors"
+                        >
+                            ▶ Käynnistä
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => removeRoutine(routine.id)}
+                            class="themed-secondary-button px-4 py-2 text-sm rounded-lg transition-colors"
+                        >
+                            🗑️ Poista
+                        </button>
+                    </>
+                )}
+            </div>
+        </SettingsCard>
+    );
+}
+
+export function RoutineSettings({ currentTime }: RoutineProps) {
+    return (
+        <>
+            {routines.value.map((routine) => (
+                <RoutineRow
+                    key={routine.id}
+                    routine={routine}
+                    currentTime={currentTime.value}
+                />
+            ))}
+            <button
+                type="button"
+                onClick={addRoutine}
+                class="themed-secondary-button w-full px-4 py-3 text-sm rounded-2xl transition-colors"
+            >
+                ➕ Lisää rutiini
+            </button>
+        </>
+    );
+}
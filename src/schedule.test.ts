@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type ScheduleModule = typeof import("./schedule");
+type TimezoneModule = typeof import("./timezone");
+
+let schedule: ScheduleModule;
+let timezone: TimezoneModule;
+
+beforeEach(async () => {
+    // Fresh check progress for every test
+    vi.resetModules();
+    window.history.replaceState({}, "", "/");
+    schedule = await import("./schedule");
+    timezone = await import("./timezone");
+});
+
+function setBlocks(...starts: [string, string][]) {
+    schedule.scheduleBlocks.value = starts.map(([id, start]) => ({
+        id,
+        name: id,
+        emoji: "",
+        color: "#3182ce",
+        start,
+        end: null,
+    }));
+}
+
+function check(time: string) {
+    return schedule.checkSchedule(new Date(time)).map((block) => block.id);
+}
+
+describe("checkSchedule", () => {
+    it("returns every block that starts at the same time", () => {
+        setBlocks(["bus", "07:30"], ["coat", "07:30"], ["school", "08:00"]);
+
+        expect(check("2026-01-14T07:29:00+02:00")).toEqual([]);
+        expect(check("2026-01-14T07:30:00+02:00")).toEqual(["bus", "coat"]);
+        expect(check("2026-01-14T07:31:00+02:00")).toEqual([]);
+    });
+
+    it("catches up on the blocks started during a short sleep", () => {
+        setBlocks(["bus", "07:30"], ["school", "07:40"]);
+
+        check("2026-01-14T07:25:00+02:00");
+        expect(check("2026-01-14T07:42:00+02:00")).toEqual(["bus", "school"]);
+    });
+
+    it("doesn't start blocks when the display zone changes", () => {
+        setBlocks(["bus", "07:30"]);
+
+        check("2026-01-14T07:00:00+02:00");
+        // 07:00 in Helsinki is 08:00 in Moscow, past the block's start
+        timezone.displayTimeZone.value = "Europe/Moscow";
+        expect(check("2026-01-14T07:01:00+02:00")).toEqual([]);
+        expect(check("2026-01-15T07:29:00+03:00")).toEqual([]);
+        expect(check("2026-01-15T07:30:00+03:00")).toEqual(["bus"]);
+    });
+});
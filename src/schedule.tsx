@@ -0,0 +1,442 @@
+import { computed, Signal } from "@preact/signals";
+import { SettingsCard, CheckboxRow } from "./SettingsCard";
+import { TimeField } from "./TimeField";
+import { alarmColors } from "./alarm";
+import { playDing } from "./sounds";
+import { speakMessage } from "./speech";
+import { nightAccent } from "./night";
+import { displayTimeZone, getZonedDate, zonedDateTime } from "./timezone";
+import {
+    describeArc,
+    formatTimeOfDay,
+    parseTimeOfDay,
+    polarToClock,
+    urlSignal,
+} from "./utils";
+import { arrayCodec, booleanCodec, isRecord, timeOfDayCodec } from "./codec";
+
+// Named block of the day for the kids' day plan. Blocks without an end time
+// are single moments like the school bus.
+export interface ScheduleBlock {
+    id: string;
+    name: string;
+    emoji: string;
+    color: string;
+    // "HH:MM"
+    start: string;
+    end: string | null;
+}
+
+function validateBlock(saved: unknown): ScheduleBlock | undefined {
+    if (!isRecord(saved)) return undefined;
+    const start = timeOfDayCodec.validate(saved.start);
+    if (typeof saved.id !== "string" || start === undefined) {
+        return undefined;
+    }
+    return {
+        id: saved.id,
+        name: typeof saved.name === "string" ? saved.name : "",
+        emoji: typeof saved.emoji === "string" ? saved.emoji : "",
+        color: typeof saved.color === "string" ? saved.color : alarmColors[0]!,
+        start,
+        end: timeOfDayCodec.validate(saved.end) ?? null,
+    };
+}
+
+export const scheduleBlocks = urlSignal<ScheduleBlock[]>(
+    "schedule",
+    [],
+    arrayCodec(validateBlock),
+);
+export const scheduleSpeechEnabled = urlSignal(
+    "scheduleSpeech",
+    true,
+    booleanCodec,
+);
+
+const DAY_MINUTES = 24 * 60;
+const HALF_DAY_MINUTES = 12 * 60;
+
+// Start and end of the block as minutes of the day. The end goes past
+// midnight for blocks like the night's sleep.
+function getBlockRange(block: ScheduleBlock) {
+    const start = parseTimeOfDay(block.start);
+    if (start === null) return null;
+
+    let end = block.end !== null ? parseTimeOfDay(block.end) : null;
+    if (end !== null && end <= start) {
+        end += DAY_MINUTES;
+    }
+    return { start, end };
+}
+
+export interface VisibleBlock {
+    block: ScheduleBlock;
+    start: number;
+    end: number | null;
+}
+
+// Blocks, or their parts, within the 12-hour half of the day containing
+// the given time. Start and end are minutes from the start of the half.
+export function getVisibleBlocks(
+    blocks: ScheduleBlock[],
+    currentTime: Date,
+): VisibleBlock[] {
+    const halfStart = currentTime.getHours() < 12 ? 0 : HALF_DAY_MINUTES;
+    const halfEnd = halfStart + HALF_DAY_MINUTES;
+    const visible: VisibleBlock[] = [];
+
+    for (const block of blocks) {
+        const range = getBlockRange(block);
+        if (!range) continue;
+
+        if (range.end === null) {
+            if (range.start >= halfStart && range.start < halfEnd) {
+                visible.push({
+                    block,
+                    start: range.start - halfStart,
+                    end: null,
+                });
+            }
+            continue;
+        }
+
+        // Check yesterday's occurrence too so that the morning part of an
+        // overnight block is shown
+        for (const offset of [-DAY_MINUTES, 0]) {
+            const start = Math.max(range.start + offset, halfStart);
+            const end = Math.min(range.end + offset, halfEnd);
+            if (start < end) {
+                visible.push({
+                    block,
+                    start: start - halfStart,
+                    end: end - halfStart,
+                });
+            }
+        }
+    }
+
+    return visible;
+}
+
+export function getCurrentBlock(
+    blocks: ScheduleBlock[],
+    currentTime: Date,
+): ScheduleBlock | null {
+    const minute = currentTime.getHours() * 60 + currentTime.getMinutes();
+
+    for (const block of blocks) {
+        const range = getBlockRange(block);
+        if (!range || range.end === null) continue;
+
+        for (const offset of [-DAY_MINUTES, 0]) {
+            if (minute >= range.start + offset && minute < range.end + offset) {
+                return block;
+            }
+        }
+    }
+    return null;
+}
+
+// Blocks started this long ago are still announced after a pause in the
+// checks, older ones are skipped
+const SCHEDULE_CATCH_UP_MINUTES = 15;
+
+let lastScheduleCheck: number | null = null;
+
+// Blocks that started since the previous check. Comparing against the time
+// of the previous check instead of the current minute doesn't lose blocks
+// when the tab was throttled or asleep, or when a DST change skips the
+// minute. The progress is kept in real time and the block times are read on
+// the display zone's clock, so changing the zone doesn't start blocks.
+export function checkSchedule(currentTime: Date): ScheduleBlock[] {
+    const now = currentTime.getTime();
+    const from = Math.max(
+        lastScheduleCheck ?? now,
+        now - SCHEDULE_CATCH_UP_MINUTES * 60 * 1000,
+    );
+    lastScheduleCheck = now;
+
+    const zone = displayTimeZone.value;
+    const today = getZonedDate(currentTime, zone);
+
+    return scheduleBlocks.value.filter((block) => {
+        const start = parseTimeOfDay(block.start);
+        if (start === null) return false;
+
+        // Yesterday's start too for checks spanning midnight
+        return [-1, 0].some((dayOffset) => {
+            const startTime = zonedDateTime(
+                today.year,
+                today.month,
+                today.day + dayOffset,
+                Math.floor(start / 60),
+                start % 60,
+                zone,
+            ).getTime();
+            return startTime > from && startTime <= now;
+        });
+    });
+}
+
+async function announceBlock(block: ScheduleBlock) {
+    await playDing();
+    if (!("speechSynthesis" in window) || !window.speechSynthesis) {
+        return;
+    }
+    await speakMessage(block.name);
+}
+
+// Blocks starting at the same time are announced one after another
+export async function announceBlocks(blocks: ScheduleBlock[]) {
+    if (!scheduleSpeechEnabled.value) return;
+
+    for (const block of blocks) {
+        await announceBlock(block);
+    }
+}
+
+function minuteToAngle(minute: number) {
+    return (minute / HALF_DAY_MINUTES) * 360;
+}
+
+const ARC_RADIUS = 19;
+
+interface ScheduleProps {
+    currentTime: Signal<Date>;
+}
+
+// Coloured arcs with emoji for the blocks of the current 12-hour half, drawn
+// inside the 24-hour numbers
+export function ScheduleArcs({ currentTime }: ScheduleProps) {
+    const now = currentTime.value;
+    const visible = getVisibleBlocks(scheduleBlocks.value, now);
+    if (visible.length === 0) {
+        return null;
+    }
+
+    const current = getCurrentBlock(scheduleBlocks.value, now);
+
+    return (
+        <g style={{ pointerEvents: "none" }}>
+            {visible.map(({ block, start, end }) => {
+                const isCurrent = block.id === current?.id;
+                const startAngle = minuteToAngle(start);
+                const midAngle =
+                    end !== null
+                        ? (startAngle + minuteToAngle(end)) / 2
+                        : startAngle;
+                const icon = polarToClock(ARC_RADIUS, midAngle);
+
+                return (
+                    <g key={`${block.id}-${start}`}>
+                        {end !== null ? (
+                            <path
+                                d={describeArc(
+                                    ARC_RADIUS,
+                                    startAngle,
+                                    minuteToAngle(end),
+                                )}
+                                fill="none"
+                                stroke={nightAccent(block.color)}
+                                stroke-width={isCurrent ? 5 : 3.5}
+                                stroke-opacity={isCurrent ? 1 : 0.5}
+                            />
+                        ) : (
+                            <circle
+                                cx={icon.x}
+                                cy={icon.y}
+                                r="2.5"
+                                fill={nightAccent(block.color)}
+                                fill-opacity="0.5"
+                            />
+                        )}
+                        <text
+                            x={icon.x}
+                            y={icon.y}
+                            text-anchor="middle"
+                            dominant-baseline="central"
+                            font-size={isCurrent ? 5 : 3.5}
+                        >
+                            {block.emoji}
+                        </text>
+                    </g>
+                );
+            })}
+        </g>
+    );
+}
+
+// Name of the current block on the face
+export function CurrentBlockLabel({ currentTime }: ScheduleProps) {
+    const current = getCurrentBlock(scheduleBlocks.value, currentTime.value);
+    if (!current) {
+        return null;
+    }
+
+    return (
+        <text
+            x="50"
+            y="66"
+            text-anchor="middle"
+            dominant-baseline="central"
+            font-size="4"
+            font-family="Arial, sans-serif"
+            font-weight="bold"
+            fill={nightAccent(current.color)}
+            style={{ pointerEvents: "none" }}
+        >
+            {current.emoji} {current.name}
+        </text>
+    );
+}
+
+const sortedBlocks = computed(() =>
+    [...scheduleBlocks.value].sort(
+        (a, b) =>
+            (parseTimeOfDay(a.start) ?? 0) - (parseTimeOfDay(b.start) ?? 0),
+    ),
+);
+
+function updateBlock(id: string, patch: Partial<ScheduleBlock>) {
+    scheduleBlocks.value = scheduleBlocks.value.map((b) =>
+        b.id === id ? { ...b, ...patch } : b,
+    );
+}
+
+function addBlock() {
+    const count = scheduleBlocks.value.length;
+    scheduleBlocks.value = [
+        ...scheduleBlocks.value,
+        {
+            id: Math.random().toString(36).substring(2, 10),
+            name: "Uusi lohko",
+            emoji: "⭐",
+            color: alarmColors[count % alarmColors.length]!,
+            start: "08:00",
+            end: "09:00",
+        },
+    ];
+}
+
+function removeBlock(id: string) {
+    scheduleBlocks.value = scheduleBlocks.value.filter((b) => b.id !== id);
+}
+
+function ScheduleBlockRow({ block }: { block: ScheduleBlock }) {
+    return (
+        <div class="flex flex-col gap-2 pt-2 border-t border-[var(--border-subtle)]">
+            <div class="flex items-center gap-2">
+                <input
+                    type="text"
+                    value={block.emoji}
+                    onChange={(e) =>
+                        updateBlock(block.id, {
+                            emoji: (e.target as HTMLInputElement).value,
+                        })
+                    }
+                    class="themed-field w-12 px-2 py-1 rounded text-center"
+                />
+                <input
+                    type="text"
+                    value={block.name}
+                    onChange={(e) =>
+                        updateBlock(block.id, {
+                            name: (e.target as HTMLInputElement).value,
+                        })
+                    }
+                    class="themed-field flex-1 min-w-0 px-2 py-1 rounded text-sm"
+                />
+                <input
+                    type="color"
+                    value={block.color}
+                    onInput={(e) =>
+                        updateBlock(block.id, {
+                            color: (e.target as HTMLInputElement).value,
+                        })
+                    }
+                    class="w-8 h-8 rounded cursor-pointer"
+                />
+                <button
+                    type="button"
+                    onClick={() => removeBlock(block.id)}
+                    class="themed-secondary-button px-2 py-1 text-sm rounded transition-colors"
+                >
+                    🗑️
+                </button>
+            </div>
+            <div class="flex items-center gap-3 text-xs">
+                <TimeField
+                    id={`schedule-start-${block.id}`}
+                    label="Alkaa"
+                    value={block.start}
+                    onInput={(e) => {
+                        const value = (e.target as HTMLInputElement).value;
+                        if (value) updateBlock(block.id, { start: value });
+                    }}
+                    labelClass="themed-subtle-text"
+                    inputClass="themed-field w-24 pl-2 pr-6 py-1 rounded text-xs"
+                />
+                {block.end !== null ? (
+                    <TimeField
+                        id={`schedule-end-${block.id}`}
+                        label="Päättyy"
+                        value={block.end}
+                        onInput={(e) =>
+                            updateBlock(block.id, {
+                                end:
+                                    (e.target as HTMLInputElement).value ||
+                                    null,
+                            })
+                        }
+                        labelClass="themed-subtle-text"
+                        inputClass="themed-field w-24 pl-2 pr-6 py-1 rounded text-xs"
+                    />
+                ) : (
+                    <button
+                        type="button"
+                        onClick={() =>
+                            updateBlock(block.id, {
+                                end: formatTimeOfDay(
+                                    (parseTimeOfDay(block.start) ?? 0) + 30,
+                                ),
+                            })
+                        }
+                        class="themed-secondary-button px-2 py-1 rounded transition-colors"
+                    >
+                        + Päättymisaika
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export function ScheduleSettings() {
+    return (
+        <SettingsCard>
+            <span class="text-sm themed-muted-text">Päivän ohjelma</span>
+
+            {sortedBlocks.value.map((block) => (
+                <ScheduleBlockRow key={block.id} block={block} />
+            ))}
+
+            <button
+                type="button"
+                onClick={addBlock}
+                class="themed-secondary-button self-start px-3 py-1 text-xs rounded-full border border-[var(--border-subtle)] transition-colors"
+            >
+                ➕ Lisää lohko
+            </button>
+
+            <CheckboxRow
+                id="schedule-speech"
+                label="Sano lohkon nimi sen alkaessa"
+                checked={scheduleSpeechEnabled.value}
+                onChange={() =>
+                    (scheduleSpeechEnabled.value = !scheduleSpeechEnabled.value)
+                }
+            />
+        </SettingsCard>
+    );
+}
@@ -0,0 +1,487 @@
+import { signal } from "@preact/signals";
+import { useRef } from "preact/hooks";
+import { Tooltip } from "./Tooltip";
+import { deleteItem, getAllItems, getItem, putItem } from "./db";
+import { jsonCodec } from "./codec";
+
+export type SoundPreset =
+    | "chime"
+    | "ding"
+    | "bells"
+    | "beeps"
+    | "rising"
+    | "birdsong";
+
+// Presets are synthesized, custom sounds are audio files stored in IndexedDB
+export type AlarmSound = SoundPreset | `custom:${string}`;
+
+export const soundPresetLabels: Record<SoundPreset, string> = {
+    chime: "Kellopeli",
+    ding: "Kilahdus",
+    bells: "Kellot",
+    beeps: "Piippaus",
+    rising: "Nouseva ääni",
+    birdsong: "Linnunlaulu",
+};
+
+// A preset name or a reference to a stored file. Files missing from this
+// device fall back to the default sound when played.
+export const alarmSoundCodec = jsonCodec((value): AlarmSound | undefined => {
+    if (typeof value !== "string") return undefined;
+    if (Object.keys(soundPresetLabels).includes(value)) {
+        return value as SoundPreset;
+    }
+    return /^custom:[a-z0-9]+$/.test(value)
+        ? (value as `custom:${string}`)
+        : undefined;
+});
+
+interface StoredSound {
+    id: string;
+    name: string;
+    data: ArrayBuffer;
+}
+
+export interface CustomSound {
+    id: string;
+    name: string;
+}
+
+export const customSounds = signal<CustomSound[]>([]);
+
+async function loadCustomSounds() {
+    try {
+        const sounds = await getAllItems<StoredSound>("sounds");
+        customSounds.value = sounds.map(({ id, name }) => ({ id, name }));
+    } catch (err) {
+        console.error("Failed to load custom sounds:", err);
+    }
+}
+
+loadCustomSounds();
+
+export async function addCustomSound(file: File): Promise<AlarmSound> {
+    const id = Math.random().toString(36).substring(2, 10);
+    const data = await file.arrayBuffer();
+    await putItem<StoredSound>("sounds", { id, name: file.name, data });
+    await loadCustomSounds();
+    return `custom:${id}`;
+}
+
+export async function removeCustomSound(sound: AlarmSound) {
+    const id = getCustomSoundId(sound);
+    if (!id) return;
+    await deleteItem("sounds", id);
+    await loadCustomSounds();
+}
+
+function getCustomSoundId(sound: AlarmSound): string | null {
+    return sound.startsWith("custom:") ? sound.slice("custom:".length) : null;
+}
+
+async function loadCustomSoundBuffer(
+    ctx: AudioContext,
+    id: string,
+): Promise<AudioBuffer | null> {
+    const stored = await getItem<StoredSound>("sounds", id);
+    if (!stored) return null;
+    // decodeAudioData detaches the buffer it is given, so pass a copy
+    return ctx.decodeAudioData(stored.data.slice(0));
+}
+
+interface ToneOptions {
+    start: number;
+    frequency: number;
+    endFrequency?: number;
+    duration: number;
+    type?: OscillatorType;
+    peak?: number;
+    attack?: number;
+}
+
+function playTone(
+    ctx: AudioContext,
+    destination: AudioNode,
+    {
+        start,
+        frequency,
+        endFrequency,
+        duration,
+        type = "sine",
+        peak = 0.3,
+        attack = 0.02,
+    }: ToneOptions,
+) {
+    const osc = ctx.createOscillator();
+    const oscGain = ctx.createGain();
+
+    osc.type = type;
+    osc.frequency.setValueAtTime(frequency, start);
+    if (endFrequency !== undefined) {
+        osc.frequency.exponentialRampToValueAtTime(
+            endFrequency,
+            start + duration,
+        );
+    }
+
+    oscGain.gain.setValueAtTime(0, start);
+    oscGain.gain.linearRampToValueAtTime(peak, start + attack);
+    oscGain.gain.exponentialRampToValueAtTime(0.01, start + duration);
+
+    osc.connect(oscGain);
+    oscGain.connect(destination);
+
+    osc.start(start);
+    osc.stop(start + duration);
+}
+
+// Schedules one round of a preset starting at startTime and returns how long
+// to wait before the next round, in seconds
+type SoundPattern = (
+    ctx: AudioContext,
+    destination: AudioNode,
+    startTime: number,
+) => number;
+
+const soundPatterns: Record<SoundPreset, SoundPattern> = {
+    chime: (ctx, destination, now) => {
+        const chime = (start: number, frequency: number) =>
+            playTone(ctx, destination, {
+                start,
+                frequency,
+                duration: 0.8,
+                attack: 0.05,
+            });
+        // Pleasant chord: C5, E5, G5
+        chime(now, 523.25); // C5
+        chime(now + 0.15, 659.25); // E5
+        chime(now + 0.3, 783.99); // G5
+        chime(now + 0.6, 1046.5); // C6
+        return 1.5;
+    },
+    ding: (ctx, destination, now) => {
+        playTone(ctx, destination, {
+            start: now,
+            frequency: 523.25,
+            duration: 0.8,
+            peak: 0.7,
+        }); // C5
+        return 1.5;
+    },
+    bells: (ctx, destination, now) => {
+        // Inharmonic partials give a church bell like timbre
+        const strike = (start: number, frequency: number) => {
+            for (const [ratio, peak] of [
+                [1, 0.3],
+                [2, 0.15],
+                [2.4, 0.1],
+                [3, 0.08],
+                [4.2, 0.05],
+            ] as const) {
+                playTone(ctx, destination, {
+                    start,
+                    frequency: frequency * ratio,
+                    duration: 2.2,
+                    peak,
+                });
+            }
+        };
+        strike(now, 392); // G4
+        strike(now + 0.8, 293.66); // D4
+        return 3;
+    },
+    beeps: (ctx, destination, now) => {
+        for (let i = 0; i < 4; i++) {
+            playTone(ctx, destination, {
+                start: now + i * 0.2,
+                frequency: 880,
+                duration: 0.1,
+                type: "square",
+                peak: 0.15,
+            });
+        }
+        return 1.4;
+    },
+    rising: (ctx, destination, now) => {
+        playTone(ctx, destination, {
+            start: now,
+            frequency: 300,
+            endFrequency: 1200,
+            duration: 1.5,
+            type: "triangle",
+            peak: 0.35,
+        });
+        return 2;
+    },
+    birdsong: (ctx, destination, now) => {
+        // Short upward chirps with small gaps, like a songbird
+        const chirps: [offset: number, from: number, to: number][] = [
+            [0, 2200, 3400],
+            [0.12, 2400, 3600],
+            [0.24, 2600, 3800],
+            [0.5, 3200, 2400],
+            [0.62, 3200, 2400],
+            [1.0, 1800, 3000],
+            [1.1, 2000, 3200],
+        ];
+        for (const [offset, from, to] of chirps) {
+            playTone(ctx, destination, {
+                start: now + offset,
+                frequency: from,
+                endFrequency: to,
+                duration: 0.09,
+                peak: 0.2,
+            });
+        }
+        return 2.2;
+    },
+};
+
+// A ringing alarm and a finished face timer have their own sound, so
+// stopping one leaves the other ringing
+export type SoundSource = "alarm" | "timer";
+
+interface PlayingSound {
+    ctx: AudioContext;
+    gain: GainNode;
+}
+
+const playingSounds = new Map<SoundSource, PlayingSound>();
+
+interface AlarmSoundOptions {
+    fadeInSeconds?: number;
+    maxVolume?: number;
+    // Called after every round, the next round waits for the returned promise
+    betweenRounds?: () => Promise<void> | void;
+}
+
+// Speech sometimes never reports that it ended, the alarm must keep ringing
+// anyway
+const BETWEEN_ROUNDS_TIMEOUT_MS = 10 * 1000;
+
+async function waitBetweenRounds(betweenRounds: () => Promise<void> | void) {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>((resolve) => {
+        timeoutId = setTimeout(resolve, BETWEEN_ROUNDS_TIMEOUT_MS);
+    });
+    try {
+        await Promise.race([betweenRounds(), timeout]);
+    } catch (err) {
+        console.error("Alarm announcement failed:", err);
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+// Custom files are played whole as one round
+function createBufferPattern(buffer: AudioBuffer): SoundPattern {
+    return (ctx, destination, startTime) => {
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.connect(destination);
+        source.start(startTime);
+        return buffer.duration;
+    };
+}
+
+// Play the sound in a loop until stopAlarmSound is called for the source
+export function playAlarmSound(
+    source: SoundSource,
+    sound: AlarmSound = "chime",
+    { fadeInSeconds = 0, maxVolume = 1, betweenRounds }: AlarmSoundOptions = {},
+) {
+    if (playingSounds.has(source)) return; // Already playing
+
+    const ctx = new AudioContext();
+    ctx.resume();
+    const gain = ctx.createGain();
+    playingSounds.set(source, { ctx, gain });
+    gain.connect(ctx.destination);
+    if (fadeInSeconds > 0) {
+        gain.gain.setValueAtTime(0, ctx.currentTime);
+        gain.gain.linearRampToValueAtTime(
+            maxVolume,
+            ctx.currentTime + fadeInSeconds,
+        );
+    } else {
+        gain.gain.setValueAtTime(maxVolume, ctx.currentTime);
+    }
+
+    // Play a repeating pattern until the source is stopped
+    const isPlaying = () => playingSounds.get(source)?.ctx === ctx;
+    const playLoop = (pattern: SoundPattern) => {
+        const playRound = () => {
+            if (!isPlaying()) return;
+            const roundLength = pattern(ctx, gain, ctx.currentTime);
+            setTimeout(async () => {
+                if (!isPlaying()) return;
+                if (betweenRounds) {
+                    await waitBetweenRounds(betweenRounds);
+                }
+                playRound();
+            }, roundLength * 1000);
+        };
+
+        playRound();
+    };
+
+    const customId = getCustomSoundId(sound);
+    if (!customId) {
+        playLoop(soundPatterns[sound as SoundPreset] ?? soundPatterns.chime);
+        return;
+    }
+
+    loadCustomSoundBuffer(ctx, customId)
+        .catch((err) => {
+            console.error("Failed to play custom sound:", err);
+            return null;
+        })
+        .then((buffer) => {
+            // The file may have been removed, fall back to the default
+            playLoop(
+                buffer ? createBufferPattern(buffer) : soundPatterns.chime,
+            );
+        });
+}
+
+// Stop the sound of the source, others keep playing
+export function stopAlarmSound(source: SoundSource) {
+    const playing = playingSounds.get(source);
+    if (!playing) return;
+    playingSounds.delete(source);
+    playing.gain.disconnect();
+    playing.ctx.close();
+}
+
+// Play a single round of the sound, resolves when it has finished. Custom
+// sounds are cut after maxSeconds.
+export async function playSoundOnce(
+    sound: AlarmSound,
+    volume = 1,
+    maxSeconds = 3,
+): Promise<void> {
+    const ctx = new AudioContext();
+    ctx.resume();
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(volume, ctx.currentTime);
+    gain.connect(ctx.destination);
+
+    let duration: number;
+    const customId = getCustomSoundId(sound);
+    const buffer = customId
+        ? await loadCustomSoundBuffer(ctx, customId).catch(() => null)
+        : null;
+
+    if (buffer) {
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.connect(gain);
+        duration = Math.min(buffer.duration, maxSeconds);
+        source.start(ctx.currentTime);
+        source.stop(ctx.currentTime + duration);
+    } else {
+        const preset = customId ? "ding" : (sound as SoundPreset);
+        const pattern = soundPatterns[preset] ?? soundPatterns.ding;
+        duration = Math.min(pattern(ctx, gain, ctx.currentTime), 2.5);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, duration * 1000));
+    ctx.close();
+}
+
+// The short notification sound used by pre-alarms
+export function playDing() {
+    return playSoundOnce("ding");
+}
+
+interface SoundPickerProps {
+    id: string;
+    value: AlarmSound;
+    volume?: number;
+    onChange: (sound: AlarmSound) => void;
+}
+
+export function SoundPicker({
+    id,
+    value,
+    volume = 1,
+    onChange,
+}: SoundPickerProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleSelect = (e: Event) => {
+        const target = e.target as HTMLSelectElement;
+        if (target.value === "upload") {
+            // Keep showing the current sound until a file is picked
+            target.value = value;
+            fileInputRef.current?.click();
+            return;
+        }
+        onChange(target.value as AlarmSound);
+    };
+
+    const handleFile = async (e: Event) => {
+        const target = e.target as HTMLInputElement;
+        const file = target.files?.[0];
+        target.value = "";
+        if (!file) return;
+
+        try {
+            onChange(await addCustomSound(file));
+        } catch (err) {
+            console.error("Failed to store custom sound:", err);
+            alert("Äänitiedoston tallentaminen epäonnistui.");
+        }
+    };
+
+    const handleRemove = async () => {
+        await removeCustomSound(value);
+        onChange("chime");
+    };
+
+    return (
+        <>
+            <select
+                id={id}
+                value={value}
+                onInput={handleSelect}
+                class="themed-field w-32 pl-2 pr-6 py-1 text-xs rounded"
+            >
+                {Object.entries(soundPresetLabels).map(([preset, label]) => (
+                    <option value={preset}>{label}</option>
+                ))}
+                {customSounds.value.map((sound) => (
+                    <option value={`custom:${sound.id}`}>{sound.name}</option>
+                ))}
+                <option value="upload">Lataa tiedosto…</option>
+            </select>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept="audio/*"
+                class="hidden"
+                onChange={handleFile}
+            />
+            <Tooltip content="Esikuuntele" position="left">
+                <button
+                    type="button"
+                    onClick={() => playSoundOnce(value, volume)}
+                    class="themed-secondary-button px-2 py-1 text-xs rounded transition-colors"
+                >
+                    ▶
+                </button>
+            </Tooltip>
+            {getCustomSoundId(value) && (
+                <Tooltip content="Poista oma ääni" position="left">
+                    <button
+                        type="button"
+                        onClick={handleRemove}
+                        class="themed-secondary-button px-2 py-1 text-xs rounded transition-colors"
+                    >
+                        🗑️
+                    </button>
+                </Tooltip>
+            )}
+        </>
+    );
+}
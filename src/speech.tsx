@@ -0,0 +1,224 @@
+import { signal, effect } from "@preact/signals";
+import { SettingsCard, SettingsRow } from "./SettingsCard";
+import { Tooltip } from "./Tooltip";
+import { storageSignal } from "./utils";
+import { Codec, nullableCodec, numberCodec } from "./codec";
+
+export const voice = signal<SpeechSynthesisVoice | null>(null);
+export const availableVoices = signal<SpeechSynthesisVoice[]>([]);
+
+// Voice URIs are stored without JSON quotes
+const voiceURICodec: Codec<string> = {
+    parse: (raw) => raw,
+    stringify: (value) => value,
+    validate: (value) => (typeof value === "string" ? value : undefined),
+};
+
+// Voice chosen by the user, null picks one automatically. A voice missing
+// from this device, e.g. in imported settings, is also picked automatically.
+const selectedVoiceURI = storageSignal<string | null>(
+    "speechVoice",
+    null,
+    nullableCodec(voiceURICodec),
+);
+export const speechRate = storageSignal("speechRate", 1, numberCodec(0.5, 2));
+export const speechPitch = storageSignal("speechPitch", 1, numberCodec(0, 2));
+export const speechVolume = storageSignal(
+    "speechVolume",
+    0.7,
+    numberCodec(0, 1),
+);
+
+function setVoice() {
+    const voices = window.speechSynthesis.getVoices();
+    availableVoices.value = voices;
+
+    console.log(`Found ${voices.length} speech synthesis voices:`, voices);
+
+    const chosen = voices.find((v) => v.voiceURI === selectedVoiceURI.value);
+    if (chosen) {
+        voice.value = chosen;
+        console.log("Selected voice:", voice.peek());
+        return;
+    }
+
+    const fiVoices = voices.filter(
+        (v) => v.lang.startsWith("fi-") || v.lang.startsWith("fi_"),
+    );
+
+    const enVoices = voices.filter(
+        (v) => v.lang.startsWith("en-") || v.lang.startsWith("en_"),
+    );
+
+    voice.value =
+        fiVoices.find((v) => v.name.toLowerCase().includes("satu")) ||
+        fiVoices[0] ||
+        enVoices[0] ||
+        voice.peek();
+
+    console.log("Selected voice:", voice.peek());
+}
+
+// Also follows a voice set by a profile or imported settings
+effect(setVoice);
+
+window.speechSynthesis.addEventListener("voiceschanged", () => {
+    setVoice();
+});
+
+window.addEventListener("load", () => {
+    setVoice();
+});
+
+export function speakMessage(text: string): Promise<void> {
+    return new Promise<void>((resolve) => {
+        const utterance = new SpeechSynthesisUtterance(text);
+        console.log("usinng voice", voice.value);
+        utterance.voice = voice.value;
+        utterance.lang = voice.value?.lang || "en-US";
+        utterance.rate = speechRate.value;
+        utterance.pitch = speechPitch.value;
+        utterance.volume = speechVolume.value;
+        utterance.onend = () => resolve();
+        utterance.onerror = () => resolve();
+        window.speechSynthesis.speak(utterance);
+    });
+}
+
+// Stop any ongoing or queued speech
+export function cancelSpeech() {
+    if ("speechSynthesis" in window && window.speechSynthesis) {
+        window.speechSynthesis.cancel();
+    }
+}
+
+function testSpeech() {
+    cancelSpeech();
+    speakMessage(
+        voice.value?.lang.startsWith("fi")
+            ? "Tämä on äänitesti"
+            : "This is a voice test",
+    );
+}
+
+interface SliderRowProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    format: (value: number) => string;
+    onChange: (value: number) => void;
+}
+
+function SliderRow({
+    label,
+    value,
+    min,
+    max,
+    step,
+    format,
+    onChange,
+}: SliderRowProps) {
+    return (
+        <SettingsRow label={label}>
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onInput={(e) =>
+                    onChange(Number((e.target as HTMLInputElement).value))
+                }
+                class="w-28 accent-blue-500"
+            />
+            <span class="text-xs themed-subtle-text w-10 text-right">
+                {format(value)}
+            </span>
+        </SettingsRow>
+    );
+}
+
+export function VoiceSettings() {
+    if (!("speechSynthesis" in window) || !window.speechSynthesis) {
+        return null;
+    }
+
+    const handleVoiceChange = (e: Event) => {
+        const target = e.target as HTMLSelectElement;
+        selectedVoiceURI.value = target.value || null;
+    };
+
+    const setValue = (sig: typeof speechRate) => (value: number) => {
+        sig.value = value;
+    };
+
+    const sortedVoices = [...availableVoices.value].sort((a, b) => {
+        const langCompare = a.lang.localeCompare(b.lang);
+        if (langCompare !== 0) return langCompare;
+        return a.name.localeCompare(b.name);
+    });
+
+    return (
+        <SettingsCard>
+            <SettingsRow label="Puheääni">
+                <select
+                    value={selectedVoiceURI.value ?? ""}
+                    onInput={handleVoiceChange}
+                    class="themed-field w-48 pl-2 pr-6 py-1 text-xs rounded"
+                >
+                    <option value="">
+                        Automaattinen
+                        {selectedVoiceURI.value === null && voice.value
+                            ? ` (${voice.value.name})`
+                            : ""}
+                    </option>
+                    {sortedVoices.map((v) => (
+                        <option value={v.voiceURI}>
+                            {v.name} ({v.lang})
+                        </option>
+                    ))}
+                </select>
+            </SettingsRow>
+
+            <SliderRow
+                label="Nopeus"
+                value={speechRate.value}
+                min={0.5}
+                max={2}
+                step={0.1}
+                format={(v) => `${v.toFixed(1)}×`}
+                onChange={setValue(speechRate)}
+            />
+            <SliderRow
+                label="Sävelkorkeus"
+                value={speechPitch.value}
+                min={0}
+                max={2}
+                step={0.1}
+                format={(v) => v.toFixed(1)}
+                onChange={setValue(speechPitch)}
+            />
+            <SliderRow
+                label="Äänenvoimakkuus"
+                value={speechVolume.value}
+                min={0}
+                max={1}
+                step={0.05}
+                format={(v) => `${Math.round(v * 100)}%`}
+                onChange={setValue(speechVolume)}
+            />
+
+            <Tooltip content="Testaa valittua ääntä" position="right">
+                <button
+                    type="button"
+                    onClick={testSpeech}
+                    class="themed-secondary-button px-3 py-1 text-xs rounded transition-colors"
+                >
+                    🔊 Testaa puhe
+                </button>
+            </Tooltip>
+        </SettingsCard>
+    );
+}
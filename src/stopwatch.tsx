@@ -0,0 +1,189 @@
+import { signal, computed, Signal } from "@preact/signals";
+import { SettingsCard } from "./SettingsCard";
+import { nightAccent } from "./night";
+
+// The elapsed time is based on performance.now() which is monotonic and keeps
+// counting correctly even when timers are throttled in a background tab
+
+// performance.now() when the stopwatch was last started, null when paused
+const stopwatchStartedAt = signal<number | null>(null);
+// Time collected before the last start
+const stopwatchAccumulated = signal(0);
+// Elapsed time at each lap press
+export const stopwatchLaps = signal<number[]>([]);
+
+export const stopwatchRunning = computed(
+    () => stopwatchStartedAt.value !== null,
+);
+
+export function getStopwatchElapsed(): number {
+    const startedAt = stopwatchStartedAt.value;
+    return (
+        stopwatchAccumulated.value +
+        (startedAt !== null ? performance.now() - startedAt : 0)
+    );
+}
+
+export function startStopwatch() {
+    if (stopwatchStartedAt.value !== null) return;
+    stopwatchStartedAt.value = performance.now();
+}
+
+export function pauseStopwatch() {
+    if (stopwatchStartedAt.value === null) return;
+    stopwatchAccumulated.value = getStopwatchElapsed();
+    stopwatchStartedAt.value = null;
+}
+
+export function resetStopwatch() {
+    stopwatchStartedAt.value = null;
+    stopwatchAccumulated.value = 0;
+    stopwatchLaps.value = [];
+}
+
+export function recordLap() {
+    if (stopwatchStartedAt.value === null) return;
+    stopwatchLaps.value = [...stopwatchLaps.value, getStopwatchElapsed()];
+}
+
+// Formats as mm:ss.cc, with hours when needed
+export function formatStopwatch(milliseconds: number) {
+    const centiseconds = Math.floor(milliseconds / 10) % 100;
+    const totalSeconds = Math.floor(milliseconds / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    const pad = (n: number) => n.toString().padStart(2, "0");
+    const time = `${pad(minutes)}:${pad(seconds)}.${pad(centiseconds)}`;
+    return hours > 0 ? `${hours}:${time}` : time;
+}
+
+interface StopwatchProps {
+    // Only used to re-render on each clock tick, the elapsed time itself
+    // comes from the monotonic clock
+    currentTime: Signal<Date>;
+}
+
+// Elapsed seconds hand and a sub-second dial on the analog face
+export function StopwatchHands({ currentTime }: StopwatchProps) {
+    currentTime.value;
+    const elapsed = getStopwatchElapsed();
+
+    const secondsAngle = ((elapsed / 1000) % 60) * 6;
+    const subSecondAngle = (elapsed % 1000) * 0.36;
+
+    return (
+        <g style={{ pointerEvents: "none" }}>
+            <text
+                x="50"
+                y="34"
+                text-anchor="middle"
+                dominant-baseline="central"
+                font-size="5"
+                font-family="Arial, sans-serif"
+                font-weight="bold"
+                fill="var(--clock-hour-number)"
+            >
+                {formatStopwatch(elapsed)}
+            </text>
+
+            {/* Sub-second dial, one turn per second */}
+            <circle
+                cx="50"
+                cy="68"
+                r="7"
+                fill="none"
+                stroke="var(--clock-ring)"
+                stroke-width="0.5"
+            />
+            <line
+                x1="50"
+                y1="68"
+                x2="50"
+                y2="62"
+                stroke={nightAccent("#3182ce")}
+                stroke-width="0.8"
+                stroke-linecap="round"
+                transform={`rotate(${subSecondAngle} 50 68)`}
+            />
+
+            {/* Elapsed seconds, one turn per minute */}
+            <line
+                x1="50"
+                y1="56"
+                x2="50"
+                y2="12"
+                stroke={nightAccent("#3182ce")}
+                stroke-width="1.2"
+                stroke-linecap="round"
+                transform={`rotate(${secondsAngle} 50 50)`}
+            />
+        </g>
+    );
+}
+
+export function StopwatchSettings({ currentTime }: StopwatchProps) {
+    currentTime.value;
+    const elapsed = getStopwatchElapsed();
+    const running = stopwatchRunning.value;
+    const laps = stopwatchLaps.value;
+
+    return (
+        <SettingsCard>
+            <div class="text-center font-mono text-3xl font-bold">
+                {formatStopwatch(elapsed)}
+            </div>
+
+            <div class="flex gap-2">
+                <button
+                    type="button"
+                    onClick={running ? pauseStopwatch : startStopwatch}
+                    class="themed-secondary-button flex-1 px-4 py-2 text-sm rounded-lg transition-colors"
+                >
+                    {running ? "⏸ Tauko" : "▶ Käynnistä"}
+                </button>
+                {running ? (
+                    <button
+                        type="button"
+                        onClick={recordLap}
+                        class="themed-secondary-button flex-1 px-4 py-2 text-sm rounded-lg transition-colors"
+                    >
+                        🏁 Kierros
+                    </button>
+                ) : (
+                    <button
+                        type="button"
+                        onClick={resetStopwatch}
+                        disabled={elapsed === 0}
+                        class="themed-secondary-button flex-1 px-4 py-2 text-sm rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        ↺ Nollaa
+                    </button>
+                )}
+            </div>
+
+            {laps.length > 0 && (
+                <ol class="pt-1 border-t border-[var(--border-subtle)] text-sm font-mono">
+                    {laps
+                        .map((total, i) => (
+                            <li class="flex justify-between py-0.5">
+                                <span class="themed-subtle-text">
+                                    Kierros {i + 1}
+                                </span>
+                                <span>
+                                    {formatStopwatch(
+                                        total - (laps[i - 1] ?? 0),
+                                    )}
+                                </span>
+                                <span class="themed-subtle-text">
+                                    {formatStopwatch(total)}
+                                </span>
+                            </li>
+                        ))
+                        .reverse()}
+                </ol>
+            )}
+        </SettingsCard>
+    );
+}
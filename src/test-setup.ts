@@ -0,0 +1,21 @@
+// Browser APIs that jsdom doesn't have but modules use when imported
+Object.defineProperty(window, "speechSynthesis", {
+    value: {
+        getVoices: () => [],
+        speak: () => {},
+        cancel: () => {},
+        addEventListener: () => {},
+        removeEventListener: () => {},
+    },
+});
+
+Object.defineProperty(window, "matchMedia", {
+    value: (query: string) => ({
+        matches: false,
+        media: query,
+        addEventListener: () => {},
+        removeEventListener: () => {},
+    }),
+});
+
+Object.defineProperty(window, "scrollTo", { value: () => {} });
@@ -0,0 +1,552 @@
+import { signal, computed, effect } from "@preact/signals";
+import { SettingsCard, SettingsRow, CheckboxRow } from "./SettingsCard";
+import { TimeField } from "./TimeField";
+import { formatTimeOfDay, parseTimeOfDay, storageSignal } from "./utils";
+import {
+    arrayCodec,
+    booleanCodec,
+    enumCodec,
+    isRecord,
+    jsonCodec,
+    numberCodec,
+    timeOfDayCodec,
+} from "./codec";
+import { nightPaletteActive } from "./night";
+
+// Colour themes are sets of the --* variables in style.css, selected with
+// data-theme on the root element. The theme is a device setting and is kept
+// in localStorage like the old dark mode switch.
+
+export type ThemeName = "light" | "dark" | "night-red" | "e-ink";
+
+// How the active theme is chosen
+export type ThemeMode = "manual" | "system" | "schedule" | "sun";
+
+export interface ThemeScheduleEntry {
+    id: string;
+    time: string;
+    theme: ThemeName;
+}
+
+export interface SunThemeSettings {
+    latitude: number;
+    longitude: number;
+    dayTheme: ThemeName;
+    nightTheme: ThemeName;
+}
+
+export const themeLabels: Record<ThemeName, string> = {
+    light: "☀️ Vaalea",
+    dark: "🌙 Tumma",
+    "night-red": "🔴 Yöpunainen",
+    "e-ink": "📖 E-ink",
+};
+
+const themeModeLabels: Record<ThemeMode, string> = {
+    manual: "Valitse itse",
+    system: "Laitteen mukaan",
+    schedule: "Kellonajan mukaan",
+    sun: "Auringon mukaan",
+};
+
+const themeCodec = enumCodec(Object.keys(themeLabels) as ThemeName[]);
+const themeModeCodec = enumCodec(Object.keys(themeModeLabels) as ThemeMode[]);
+
+const themeScheduleCodec = arrayCodec(
+    (saved): ThemeScheduleEntry | undefined => {
+        if (!isRecord(saved) || typeof saved.id !== "string") return undefined;
+        const time = timeOfDayCodec.validate(saved.time);
+        const theme = themeCodec.validate(saved.theme);
+        return time && theme ? { id: saved.id, time, theme } : undefined;
+    },
+);
+
+const defaultThemeSchedule: ThemeScheduleEntry[] = [
+    { id: "day", time: "07:00", theme: "light" },
+    { id: "night", time: "21:00", theme: "night-red" },
+];
+
+const latitudeCodec = numberCodec(-90, 90);
+const longitudeCodec = numberCodec(-180, 180);
+
+const sunThemeCodec = jsonCodec((saved): SunThemeSettings | undefined => {
+    if (!isRecord(saved)) return undefined;
+    const latitude = latitudeCodec.validate(saved.latitude);
+    const longitude = longitudeCodec.validate(saved.longitude);
+    if (latitude === undefined || longitude === undefined) return undefined;
+    return {
+        latitude,
+        longitude,
+        dayTheme: themeCodec.validate(saved.dayTheme) ?? "light",
+        nightTheme: themeCodec.validate(saved.nightTheme) ?? "dark",
+    };
+});
+
+const defaultSunTheme: SunThemeSettings = {
+    // Helsinki
+    latitude: 60.17,
+    longitude: 24.94,
+    dayTheme: "light",
+    nightTheme: "dark",
+};
+
+// Theme picked by hand, "theme" held "dark" or "light" before named themes
+export const manualTheme = storageSignal<ThemeName>(
+    "theme",
+    "light",
+    themeCodec,
+);
+export const themeMode = storageSignal<ThemeMode>(
+    "themeMode",
+    "manual",
+    themeModeCodec,
+);
+// Switch a hand-picked theme back to light at a set time, the keys are from
+// the old dark mode switch
+export const themeAutoOffEnabled = storageSignal(
+    "darkModeAutoOffEnabled",
+    false,
+    booleanCodec,
+);
+export const themeAutoOffTime = storageSignal(
+    "darkModeAutoOffTime",
+    "07:00",
+    timeOfDayCodec,
+);
+export const themeSchedule = storageSignal(
+    "themeSchedule",
+    defaultThemeSchedule,
+    themeScheduleCodec,
+);
+export const sunTheme = storageSignal(
+    "sunTheme",
+    defaultSunTheme,
+    sunThemeCodec,
+);
+
+const colorSchemeQuery = window.matchMedia("(prefers-color-scheme: dark)");
+const systemPrefersDark = signal(colorSchemeQuery.matches);
+colorSchemeQuery.addEventListener("change", (e) => {
+    systemPrefersDark.value = e.matches;
+});
+
+// Updated once a minute from the clock's tick loop
+const themeClock = signal(new Date());
+
+const DEG = Math.PI / 180;
+
+// Sunrise and sunset of the local day using the sunrise equation. Returns
+// "day" or "night" when the sun does not rise or set at all.
+export function getSunTimes(
+    date: Date,
+    latitude: number,
+    longitude: number,
+): { sunrise: Date; sunset: Date } | "day" | "night" {
+    const noon = new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        12,
+    );
+    // Days since the J2000 epoch
+    const n = Math.round(noon.getTime() / 86400000 + 2440587.5 - 2451545);
+    const meanNoon = n - longitude / 360;
+    const anomaly = (357.5291 + 0.98560028 * meanNoon) % 360;
+    const center =
+        1.9148 * Math.sin(anomaly * DEG) +
+        0.02 * Math.sin(2 * anomaly * DEG) +
+        0.0003 * Math.sin(3 * anomaly * DEG);
+    const eclipticLongitude = (anomaly + center + 180 + 102.9372) % 360;
+    const transit =
+        2451545 +
+        meanNoon +
+        0.0053 * Math.sin(anomaly * DEG) -
+        0.0069 * Math.sin(2 * eclipticLongitude * DEG);
+    const sinDeclination =
+        Math.sin(eclipticLongitude * DEG) * Math.sin(23.4397 * DEG);
+    const cosDeclination = Math.cos(Math.asin(sinDeclination));
+    // -0.833° accounts for refraction and the size of the sun's disc
+    const cosHourAngle =
+        (Math.sin(-0.833 * DEG) - Math.sin(latitude * DEG) * sinDeclination) /
+        (Math.cos(latitude * DEG) * cosDeclination);
+
+    if (cosHourAngle > 1) return "night";
+    if (cosHourAngle < -1) return "day";
+
+    const hourAngle = Math.acos(cosHourAngle) / DEG;
+    const fromJulian = (julian: number) =>
+        new Date((julian - 2440587.5) * 86400000);
+    return {
+        sunrise: fromJulian(transit - hourAngle / 360),
+        sunset: fromJulian(transit + hourAngle / 360),
+    };
+}
+
+// Theme of the schedule entry that started last, wrapping over midnight
+function getScheduledTheme(
+    entries: ThemeScheduleEntry[],
+    currentTime: Date,
+): ThemeName | null {
+    const minute = currentTime.getHours() * 60 + currentTime.getMinutes();
+    const sorted = entries
+        .map((entry) => ({ entry, start: parseTimeOfDay(entry.time) }))
+        .filter(
+            (e): e is { entry: ThemeScheduleEntry; start: number } =>
+                e.start !== null,
+        )
+        .sort((a, b) => a.start - b.start);
+
+    const current =
+        sorted.filter((e) => e.start <= minute).pop() ??
+        sorted[sorted.length - 1];
+    return current?.entry.theme ?? null;
+}
+
+function getSunTheme(settings: SunThemeSettings, currentTime: Date) {
+    const times = getSunTimes(
+        currentTime,
+        settings.latitude,
+        settings.longitude,
+    );
+    const isDay =
+        typeof times === "string"
+            ? times === "day"
+            : currentTime >= times.sunrise && currentTime < times.sunset;
+    return isDay ? settings.dayTheme : settings.nightTheme;
+}
+
+export const activeTheme = computed((): ThemeName => {
+    if (nightPaletteActive.value) {
+        return "night-red";
+    }
+    switch (themeMode.value) {
+        case "system":
+            return systemPrefersDark.value ? "dark" : "light";
+        case "schedule":
+            return (
+                getScheduledTheme(themeSchedule.value, themeClock.value) ??
+                manualTheme.value
+            );
+        case "sun":
+            return getSunTheme(sunTheme.value, themeClock.value);
+        default:
+            return manualTheme.value;
+    }
+});
+
+effect(() => {
+    const theme = activeTheme.value;
+    document.documentElement.dataset.theme = theme;
+    document.documentElement.style.colorScheme =
+        theme === "light" || theme === "e-ink" ? "light" : "dark";
+});
+
+// Call once a minute
+export function checkTheme(currentTime: Date) {
+    themeClock.value = currentTime;
+
+    if (
+        themeMode.value === "manual" &&
+        manualTheme.value !== "light" &&
+        themeAutoOffEnabled.value &&
+        parseTimeOfDay(themeAutoOffTime.value) ===
+            currentTime.getHours() * 60 + currentTime.getMinutes()
+    ) {
+        manualTheme.value = "light";
+    }
+}
+
+function updateScheduleEntry(id: string, patch: Partial<ThemeScheduleEntry>) {
+    themeSchedule.value = themeSchedule.value.map((e) =>
+        e.id === id ? { ...e, ...patch } : e,
+    );
+}
+
+function addScheduleEntry() {
+    const last = themeSchedule.value[themeSchedule.value.length - 1];
+    themeSchedule.value = [
+        ...themeSchedule.value,
+        {
+            id: Math.random().toString(36).substring(2, 10),
+            time: last
+                ? formatTimeOfDay((parseTimeOfDay(last.time) ?? 0) + 60)
+                : "07:00",
+            theme: "light",
+        },
+    ];
+}
+
+function removeScheduleEntry(id: string) {
+    themeSchedule.value = themeSchedule.value.filter((e) => e.id !== id);
+}
+
+function fillCurrentLocation() {
+    navigator.geolocation.getCurrentPosition(
+        (position) => {
+            sunTheme.value = {
+                ...sunTheme.value,
+                // Two decimals is about a kilometre, plenty for the sun
+                latitude: Math.round(position.coords.latitude * 100) / 100,
+                longitude: Math.round(position.coords.longitude * 100) / 100,
+            };
+        },
+        (err) => {
+            console.error("Failed to get location:", err);
+        },
+    );
+}
+
+const selectClass = "themed-field w-36 pl-2 pr-6 py-1 text-xs rounded";
+
+interface ThemeSelectProps {
+    value: ThemeName;
+    onChange: (theme: ThemeName) => void;
+}
+
+function ThemeSelect({ value, onChange }: ThemeSelectProps) {
+    return (
+        <select
+            value={value}
+            onInput={(e) =>
+                onChange((e.target as HTMLSelectElement).value as ThemeName)
+            }
+            class={selectClass}
+        >
+            {Object.entries(themeLabels).map(([theme, label]) => (
+                <option value={theme}>{label}</option>
+            ))}
+        </select>
+    );
+}
+
+function formatClockTime(date: Date) {
+    return date.toLocaleTimeString("fi-FI", {
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+}
+
+function SunTimes() {
+    const { latitude, longitude } = sunTheme.value;
+    const times = getSunTimes(themeClock.value, latitude, longitude);
+
+    return (
+        <p class="text-xs themed-subtle-text italic">
+            {times === "day"
+                ? "Aurinko ei laske tänään."
+                : times === "night"
+                  ? "Aurinko ei nouse tänään."
+                  : `Aurinko nousee ${formatClockTime(times.sunrise)} ja laskee ${formatClockTime(times.sunset)}.`}
+        </p>
+    );
+}
+
+function CoordinateField({
+    label,
+    value,
+    limit,
+    onChange,
+}: {
+    label: string;
+    value: number;
+    limit: number;
+    onChange: (value: number) => void;
+}) {
+    return (
+        <SettingsRow label={label}>
+            <input
+                type="number"
+                min={-limit}
+                max={limit}
+                step="0.01"
+                value={value}
+                onChange={(e) => {
+                    const parsed = Number((e.target as HTMLInputElement).value);
+                    if (!isNaN(parsed) && Math.abs(parsed) <= limit) {
+                        onChange(parsed);
+                    }
+                }}
+                class="themed-field w-24 px-2 py-1 rounded text-xs"
+            />
+        </SettingsRow>
+    );
+}
+
+export function ThemeSettings() {
+    return (
+        <SettingsCard>
+            <SettingsRow label="Teema">
+                <select
+                    value={themeMode.value}
+                    onInput={(e) =>
+                        (themeMode.value = (e.target as HTMLSelectElement)
+                            .value as ThemeMode)
+                    }
+                    class={selectClass}
+                >
+                    {Object.entries(themeModeLabels).map(([mode, label]) => (
+                        <option value={mode}>{label}</option>
+                    ))}
+                </select>
+            </SettingsRow>
+
+            {themeMode.value === "manual" && (
+                <>
+                    <div class="grid grid-cols-2 gap-2">
+                        {Object.entries(themeLabels).map(([theme, label]) => (
+                            <button
+                                type="button"
+                                onClick={() =>
+                                    (manualTheme.value = theme as ThemeName)
+                                }
+                                class={`px-3 py-2 text-sm rounded-xl transition-colors ${
+                                    manualTheme.value === theme
+                                        ? "bg-blue-500 text-white"
+                                        : "themed-secondary-button border border-[var(--border-subtle)]"
+                                }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {manualTheme.value !== "light" && (
+                        <div class="pt-1 border-t border-[var(--border-subtle)]">
+                            <CheckboxRow
+                                id="theme-auto-off"
+                                label="Vaihda vaaleaan automaattisesti"
+                                checked={themeAutoOffEnabled.value}
+                                onChange={() =>
+                                    (themeAutoOffEnabled.value =
+                                        !themeAutoOffEnabled.value)
+                                }
+                            >
+                                <SettingsRow label="Vaihtoaika">
+                                    <TimeField
+                                        id="theme-auto-off-time"
+                                        label=""
+                                        value={themeAutoOffTime.value}
+                                        onInput={(e) => {
+                                            const value = (
+                                                e.target as HTMLInputElement
+                                            ).value;
+                                            if (value) {
+                                                themeAutoOffTime.value = value;
+                                            }
+                                        }}
+                                    />
+                                </SettingsRow>
+                            </CheckboxRow>
+                        </div>
+                    )}
+                </>
+            )}
+
+            {themeMode.value === "system" && (
+                <p class="text-xs themed-subtle-text italic">
+                    Tumma tai vaalea teema laitteen asetuksen mukaan.
+                </p>
+            )}
+
+            {themeMode.value === "schedule" && (
+                <>
+                    {themeSchedule.value.map((entry) => (
+                        <div
+                            key={entry.id}
+                            class="flex items-center gap-2 pt-2 border-t border-[var(--border-subtle)]"
+                        >
+                            <TimeField
+                                id={`theme-schedule-${entry.id}`}
+                                label="Klo"
+                                value={entry.time}
+                                onInput={(e) => {
+                                    const value = (e.target as HTMLInputElement)
+                                        .value;
+                                    if (value) {
+                                        updateScheduleEntry(entry.id, {
+                                            time: value,
+                                        });
+                                    }
+                                }}
+                                labelClass="themed-subtle-text text-xs"
+                                inputClass="themed-field w-24 pl-2 pr-6 py-1 rounded text-xs"
+                            />
+                            <ThemeSelect
+                                value={entry.theme}
+                                onChange={(theme) =>
+                                    updateScheduleEntry(entry.id, { theme })
+                                }
+                            />
+                            <button
+                                type="button"
+                                onClick={() => removeScheduleEntry(entry.id)}
+                                class="themed-secondary-button px-2 py-1 text-sm rounded transition-colors"
+                            >
+                                🗑️
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        type="button"
+                        onClick={addScheduleEntry}
+                        class="themed-secondary-button self-start px-3 py-1 text-xs rounded-full border border-[var(--border-subtle)] transition-colors"
+                    >
+                        ➕ Lisää vaihto
+                    </button>
+                </>
+            )}
+
+            {themeMode.value === "sun" && (
+                <>
+                    <SettingsRow label="Päivällä">
+                        <ThemeSelect
+                            value={sunTheme.value.dayTheme}
+                            onChange={(dayTheme) =>
+                                (sunTheme.value = {
+                                    ...sunTheme.value,
+                                    dayTheme,
+                                })
+                            }
+                        />
+                    </SettingsRow>
+                    <SettingsRow label="Yöllä">
+                        <ThemeSelect
+                            value={sunTheme.value.nightTheme}
+                            onChange={(nightTheme) =>
+                                (sunTheme.value = {
+                                    ...sunTheme.value,
+                                    nightTheme,
+                                })
+                            }
+                        />
+                    </SettingsRow>
+                    <CoordinateField
+                        label="Leveysaste"
+                        value={sunTheme.value.latitude}
+                        limit={90}
+                        onChange={(latitude) =>
+                            (sunTheme.value = { ...sunTheme.value, latitude })
+                        }
+                    />
+                    <CoordinateField
+                        label="Pituusaste"
+                        value={sunTheme.value.longitude}
+                        limit={180}
+                        onChange={(longitude) =>
+                            (sunTheme.value = { ...sunTheme.value, longitude })
+                        }
+                    />
+                    {"geolocation" in navigator && (
+                        <button
+                            type="button"
+                            onClick={fillCurrentLocation}
+                            class="themed-secondary-button self-start px-3 py-1 text-xs rounded-full border border-[var(--border-subtle)] transition-colors"
+                        >
+                            📍 Käytä nykyistä sijaintia
+                        </button>
+                    )}
+                    <SunTimes />
+                </>
+            )}
+        </SettingsCard>
+    );
+}
@@ -0,0 +1,253 @@
+import { signal, computed, Signal } from "@preact/signals";
+import { useRef } from "preact/hooks";
+import { SettingsCard, SettingsRow } from "./SettingsCard";
+import { playAlarmSound, stopAlarmSound } from "./sounds";
+import { describeSector, getClockAngle, useDocumentDrag } from "./utils";
+import { nightAccent } from "./night";
+
+// The whole face is one hour, like in the classic visual timers
+const TIMER_FACE_MINUTES = 60;
+
+// When the running timer ends, in epoch milliseconds
+export const timerEndsAt = signal<number | null>(null);
+// Time left of a paused timer in milliseconds
+export const timerPausedRemaining = signal<number | null>(null);
+// Minutes picked while dragging on the face
+export const timerDragMinutes = signal<number | null>(null);
+export const timerRinging = signal(false);
+
+export const timerActive = computed(
+    () => timerEndsAt.value !== null || timerPausedRemaining.value !== null,
+);
+
+export function startTimer(minutes: number) {
+    timerEndsAt.value = Date.now() + minutes * 60 * 1000;
+    timerPausedRemaining.value = null;
+}
+
+export function pauseTimer() {
+    if (timerEndsAt.value === null) return;
+    timerPausedRemaining.value = Math.max(0, timerEndsAt.value - Date.now());
+    timerEndsAt.value = null;
+}
+
+export function resumeTimer() {
+    if (timerPausedRemaining.value === null) return;
+    timerEndsAt.value = Date.now() + timerPausedRemaining.value;
+    timerPausedRemaining.value = null;
+}
+
+export function cancelTimer() {
+    timerEndsAt.value = null;
+    timerPausedRemaining.value = null;
+}
+
+// Milliseconds left of the timer, or null when no timer is set
+export function getTimerRemaining(currentTime: Date): number | null {
+    if (timerPausedRemaining.value !== null) {
+        return timerPausedRemaining.value;
+    }
+    if (timerEndsAt.value !== null) {
+        return Math.max(0, timerEndsAt.value - currentTime.getTime());
+    }
+    return null;
+}
+
+// Has the running timer run out
+export function checkTimer(currentTime: Date): boolean {
+    return (
+        timerEndsAt.value !== null &&
+        !timerRinging.value &&
+        currentTime.getTime() >= timerEndsAt.value
+    );
+}
+
+// Ring the alarm sound when the timer has run out
+export function finishTimer() {
+    timerEndsAt.value = null;
+    timerRinging.value = true;
+    playAlarmSound("timer", "chime");
+}
+
+export function stopTimerAlarm() {
+    timerRinging.value = false;
+    stopAlarmSound("timer");
+}
+
+export function formatDuration(milliseconds: number) {
+    const totalSeconds = Math.ceil(milliseconds / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60)
+        .toString()
+        .padStart(2, "0");
+    const seconds = (totalSeconds % 60).toString().padStart(2, "0");
+    return hours > 0
+        ? `${hours}:${minutes}:${seconds}`
+        : `${minutes}:${seconds}`;
+}
+
+// Hook to set the timer by dragging on the clock face. The timer starts
+// when the drag ends.
+export function useTimerDrag(svgRef: { current: SVGSVGElement | null }) {
+    const isDragging = useRef(false);
+
+    const updateFromPosition = (clientX: number, clientY: number) => {
+        const angle = getClockAngle(svgRef.current, clientX, clientY);
+        if (angle === null) return;
+        timerDragMinutes.value = Math.round((angle / 360) * TIMER_FACE_MINUTES);
+    };
+
+    const handleStart = (clientX: number, clientY: number) => {
+        isDragging.current = true;
+        updateFromPosition(clientX, clientY);
+    };
+
+    useDocumentDrag(
+        (clientX, clientY) => {
+            if (isDragging.current) updateFromPosition(clientX, clientY);
+        },
+        () => {
+            if (!isDragging.current) return;
+            isDragging.current = false;
+
+            const minutes = timerDragMinutes.value;
+            timerDragMinutes.value = null;
+            if (minutes !== null && minutes > 0) {
+                startTimer(minutes);
+            }
+        },
+    );
+
+    return { handleStart };
+}
+
+interface TimerSectorProps {
+    currentTime: Signal<Date>;
+}
+
+// Coloured sector that shrinks towards 12 as the time runs out
+export function TimerSector({ currentTime }: TimerSectorProps) {
+    const dragMinutes = timerDragMinutes.value;
+    const remaining = getTimerRemaining(currentTime.value);
+
+    const minutes =
+        dragMinutes ?? (remaining !== null ? remaining / 60000 : null);
+    if (minutes === null) {
+        return null;
+    }
+
+    const angle = Math.min(1, minutes / TIMER_FACE_MINUTES) * 360;
+    const label =
+        dragMinutes !== null
+            ? `${dragMinutes} min`
+            : formatDuration(remaining!);
+
+    return (
+        <g style={{ pointerEvents: "none" }}>
+            {angle > 0 && (
+                <path
+                    d={describeSector(40, 0, angle)}
+                    fill={nightAccent("#e53e3e")}
+                    fill-opacity={
+                        timerPausedRemaining.value !== null ? 0.35 : 0.6
+                    }
+                />
+            )}
+            <text
+                x="50"
+                y="66"
+                text-anchor="middle"
+                dominant-baseline="central"
+                font-size="5"
+                font-family="Arial, sans-serif"
+                font-weight="bold"
+                fill="var(--clock-hour-number)"
+            >
+                {label}
+            </text>
+        </g>
+    );
+}
+
+export function TimerOverlay() {
+    if (!timerRinging.value) {
+        return null;
+    }
+
+    return (
+        <div
+            class="fixed inset-0 flex flex-col items-center justify-end gap-4 p-6 pb-12"
+            style={{
+                // An alarm ringing at the same time is shown on top
+                zIndex: 1500,
+            }}
+        >
+            <div class="bg-black bg-opacity-70 text-white rounded-2xl px-6 py-4 text-center shadow-lg text-2xl font-bold">
+                ⏳ Aika loppui!
+            </div>
+            <button
+                type="button"
+                onClick={stopTimerAlarm}
+                class="w-full max-w-md px-4 py-6 rounded-2xl text-xl font-bold bg-gray-900 text-white shadow-lg"
+            >
+                ⏹ Lopeta
+            </button>
+        </div>
+    );
+}
+
+const timerPresets = [5, 10, 15, 20, 30, 45, 60];
+
+interface TimerSettingsProps {
+    currentTime: Signal<Date>;
+}
+
+export function TimerSettings({ currentTime }: TimerSettingsProps) {
+    const remaining = getTimerRemaining(currentTime.value);
+    const paused = timerPausedRemaining.value !== null;
+
+    return (
+        <SettingsCard>
+            <SettingsRow label="Ajastin">
+                <span class="font-mono text-lg font-bold">
+                    {remaining !== null ? formatDuration(remaining) : "--:--"}
+                </span>
+            </SettingsRow>
+
+            <p class="text-xs themed-subtle-text italic">
+                Aseta aika vetämällä kellotaulua
+            </p>
+
+            <div class="flex flex-wrap gap-2">
+                {timerPresets.map((minutes) => (
+                    <button
+                        type="button"
+                        onClick={() => startTimer(minutes)}
+                        class="themed-secondary-button px-3 py-1 text-xs rounded-full border border-[var(--border-subtle)] transition-colors"
+                    >
+                        {minutes} min
+                    </button>
+                ))}
+            </div>
+
+            {timerActive.value && (
+                <div class="pt-1 border-t border-[var(--border-subtle)] flex gap-2">
+                    <button
+                        type="button"
+                        onClick={paused ? resumeTimer : pauseTimer}
+                        class="themed-secondary-button flex-1 px-4 py-2 text-sm rounded-lg transition-colors"
+                    >
+                        {paused ? "▶ Jatka" : "⏸ Tauko"}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={cancelTimer}
+                        class="themed-secondary-button flex-1 px-4 py-2 text-sm rounded-lg transition-colors"
+                    >
+                        ✖ Peruuta
+                    </button>
+                </div>
+            )}
+        </SettingsCard>
+    );
+}
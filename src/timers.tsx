@@ -0,0 +1,405 @@
+import { computed, Signal } from "@preact/signals";
+import { SettingsCard } from "./SettingsCard";
+import { storageSignal } from "./utils";
+import {
+    Codec,
+    arrayCodec,
+    isRecord,
+    nullableCodec,
+    numberCodec,
+} from "./codec";
+import { speakMessage, voice } from "./speech";
+import { playSoundOnce } from "./sounds";
+import { formatDuration } from "./timer";
+import { nightAccent } from "./night";
+
+// Independent named timers, e.g. for the kitchen. Unlike the face timer these
+// are stored in localStorage with absolute end times so running timers
+// survive a page reload.
+export interface NamedTimer {
+    id: string;
+    name: string;
+    durationMinutes: number;
+    // When the running timer ends, in epoch milliseconds
+    endsAt: number | null;
+    // Time left of a paused timer in milliseconds
+    pausedRemaining: number | null;
+    ringing: boolean;
+}
+
+// Loose bounds, the duration field only checks for positive numbers
+const durationCodec = numberCodec(0, 7 * 24 * 60);
+const nullableTimeCodec = nullableCodec(numberCodec(0, Number.MAX_VALUE));
+
+function validateNamedTimer(saved: unknown): NamedTimer | undefined {
+    if (
+        !isRecord(saved) ||
+        typeof saved.id !== "string" ||
+        typeof saved.name !== "string"
+    ) {
+        return undefined;
+    }
+    const durationMinutes = durationCodec.validate(saved.durationMinutes);
+    if (durationMinutes === undefined) return undefined;
+    return {
+        id: saved.id,
+        name: saved.name,
+        durationMinutes,
+        endsAt: nullableTimeCodec.validate(saved.endsAt) ?? null,
+        pausedRemaining:
+            nullableTimeCodec.validate(saved.pausedRemaining) ?? null,
+        ringing: saved.ringing === true,
+    };
+}
+
+const storedTimersCodec = arrayCodec(validateNamedTimer);
+
+// Timers saved on this device keep running over a reload. Timers from
+// imported settings and profiles start stopped, their end times were saved
+// at some other moment.
+const namedTimersCodec: Codec<NamedTimer[]> = {
+    ...storedTimersCodec,
+    validate: (value) =>
+        storedTimersCodec.validate(value)?.map((timer) => ({
+            ...timer,
+            endsAt: null,
+            pausedRemaining: null,
+            ringing: false,
+        })),
+};
+
+export const namedTimers = storageSignal<NamedTimer[]>(
+    "timers",
+    [],
+    namedTimersCodec,
+);
+
+export const ringingTimers = computed(() =>
+    namedTimers.value.filter((t) => t.ringing),
+);
+
+function updateTimer(id: string, patch: Partial<NamedTimer>) {
+    namedTimers.value = namedTimers.value.map((t) =>
+        t.id === id ? { ...t, ...patch } : t,
+    );
+}
+
+export function addTimer(name: string, durationMinutes: number) {
+    namedTimers.value = [
+        ...namedTimers.value,
+        {
+            id: Math.random().toString(36).substring(2, 10),
+            name,
+            durationMinutes,
+            endsAt: null,
+            pausedRemaining: null,
+            ringing: false,
+        },
+    ];
+}
+
+export function removeTimer(id: string) {
+    namedTimers.value = namedTimers.value.filter((t) => t.id !== id);
+    lastAnnouncedAt.delete(id);
+}
+
+export function startNamedTimer(timer: NamedTimer) {
+    const remaining =
+        timer.pausedRemaining ?? timer.durationMinutes * 60 * 1000;
+    updateTimer(timer.id, {
+        endsAt: Date.now() + remaining,
+        pausedRemaining: null,
+        ringing: false,
+    });
+}
+
+export function pauseNamedTimer(timer: NamedTimer) {
+    if (timer.endsAt === null) return;
+    updateTimer(timer.id, {
+        endsAt: null,
+        pausedRemaining: Math.max(0, timer.endsAt - Date.now()),
+    });
+}
+
+export function resetNamedTimer(timer: NamedTimer) {
+    updateTimer(timer.id, {
+        endsAt: null,
+        pausedRemaining: null,
+        ringing: false,
+    });
+    lastAnnouncedAt.delete(timer.id);
+}
+
+// Milliseconds left, or null when the timer is not started
+export function getNamedTimerRemaining(
+    timer: NamedTimer,
+    currentTime: Date,
+): number | null {
+    if (timer.pausedRemaining !== null) {
+        return timer.pausedRemaining;
+    }
+    if (timer.endsAt !== null) {
+        return Math.max(0, timer.endsAt - currentTime.getTime());
+    }
+    return null;
+}
+
+function buildTimerAnnouncement(timer: NamedTimer) {
+    return voice.value?.lang.startsWith("fi")
+        ? `${timer.name} on valmis`
+        : `${timer.name} is done`;
+}
+
+// Time between repeated announcements of a ringing timer
+const TIMER_ANNOUNCEMENT_INTERVAL = 15 * 1000;
+
+const lastAnnouncedAt = new Map<string, number>();
+
+function announceTimer(timer: NamedTimer) {
+    lastAnnouncedAt.set(timer.id, Date.now());
+    playSoundOnce("bells")
+        .then(() => speakMessage(buildTimerAnnouncement(timer)))
+        .catch((err) => {
+            console.error("Failed to announce timer:", err);
+        });
+}
+
+// Rings the timers that have run out and repeats the announcement of the ones
+// still waiting for acknowledgement
+export function checkNamedTimers(currentTime: Date) {
+    const now = currentTime.getTime();
+
+    for (const timer of namedTimers.value) {
+        if (timer.ringing) {
+            const last = lastAnnouncedAt.get(timer.id) ?? 0;
+            if (now - last >= TIMER_ANNOUNCEMENT_INTERVAL) {
+                announceTimer(timer);
+            }
+        } else if (timer.endsAt !== null && now >= timer.endsAt) {
+            updateTimer(timer.id, { endsAt: null, ringing: true });
+            announceTimer(timer);
+        }
+    }
+}
+
+export function acknowledgeTimer(id: string) {
+    updateTimer(id, { ringing: false });
+    lastAnnouncedAt.delete(id);
+}
+
+interface ProgressRingProps {
+    progress: number;
+    ringing: boolean;
+}
+
+function ProgressRing({ progress, ringing }: ProgressRingProps) {
+    const radius = 16;
+    const circumference = 2 * Math.PI * radius;
+
+    return (
+        <svg viewBox="0 0 40 40" class="w-10 h-10 shrink-0 -rotate-90">
+            <circle
+                cx="20"
+                cy="20"
+                r={radius}
+                fill="none"
+                stroke="var(--border-subtle)"
+                stroke-width="4"
+            />
+            <circle
+                cx="20"
+                cy="20"
+                r={radius}
+                fill="none"
+                stroke={nightAccent(ringing ? "#e53e3e" : "#3182ce")}
+                stroke-width="4"
+                stroke-linecap="round"
+                stroke-dasharray={circumference}
+                stroke-dashoffset={circumference * (1 - progress)}
+            />
+        </svg>
+    );
+}
+
+interface NamedTimerRowProps {
+    timer: NamedTimer;
+    currentTime: Date;
+}
+
+function NamedTimerRow({ timer, currentTime }: NamedTimerRowProps) {
+    const duration = timer.durationMinutes * 60 * 1000;
+    const remaining = getNamedTimerRemaining(timer, currentTime);
+    const running = timer.endsAt !== null;
+    const progress = timer.ringing
+        ? 1
+        : remaining !== null
+          ? remaining / duration
+          : 1;
+
+    return (
+        <div class="flex items-center gap-3">
+            <ProgressRing progress={progress} ringing={timer.ringing} />
+
+            <div class="flex-1 flex flex-col gap-1 min-w-0">
+                <input
+                    type="text"
+                    value={timer.name}
+                    onChange={(e) =>
+                        updateTimer(timer.id, {
+                            name: (e.target as HTMLInputElement).value,
+                        })
+                    }
+                    class="themed-field w-full px-2 py-1 rounded text-sm"
+                />
+                <div class="flex items-center gap-2 text-xs themed-subtle-text">
+                    {remaining !== null || timer.ringing ? (
+                        <span class="font-mono text-sm font-bold themed-muted-text">
+                            {timer.ringing
+                                ? "Valmis!"
+                                : formatDuration(remaining!)}
+                        </span>
+                    ) : (
+                        <>
+                            <input
+                                type="number"
+                                min={1}
+                                max={999}
+                                value={timer.durationMinutes}
+                                onChange={(e) => {
+                                    const minutes = Number(
+                                        (e.target as HTMLInputElement).value,
+                                    );
+                                    if (minutes > 0) {
+                                        updateTimer(timer.id, {
+                                            durationMinutes: minutes,
+                                        });
+                                    }
+                                }}
+                                class="themed-field w-16 px-2 py-1 rounded text-xs"
+                            />
+                            min
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {timer.ringing ? (
+                <button
+                    type="button"
+                    onClick={() => acknowledgeTimer(timer.id)}
+                    class="px-3 py-2 text-sm rounded-lg bg-red-500 text-white"
+                >
+                    Kuittaa
+                </button>
+            ) : (
+                <button
+                    type="button"
+                    onClick={() =>
+                        running
+                            ? pauseNamedTimer(timer)
+                            : startNamedTimer(timer)
+                    }
+                    class="themed-secondary-button px-3 py-2 text-sm rounded-lg transition-colors"
+                >
+                    {running ? "⏸" : "▶"}
+                </button>
+            )}
+            {remaining !== null && !running && (
+                <button
+                    type="button"
+                    onClick={() => resetNamedTimer(timer)}
+                    class="themed-secondary-button px-3 py-2 text-sm rounded-lg transition-colors"
+                >
+                    ↺
+                </button>
+            )}
+            <button
+                type="button"
+                onClick={() => removeTimer(timer.id)}
+                class="themed-secondary-button px-3 py-2 text-sm rounded-lg transition-colors"
+            >
+                🗑️
+            </button>
+        </div>
+    );
+}
+
+const timerSuggestions = [
+    { name: "Pasta", minutes: 9 },
+    { name: "Kananmunat", minutes: 7 },
+    { name: "Uuni", minutes: 40 },
+];
+
+interface NamedTimerSettingsProps {
+    currentTime: Signal<Date>;
+}
+
+export function NamedTimerSettings({ currentTime }: NamedTimerSettingsProps) {
+    const timers = namedTimers.value;
+
+    return (
+        <SettingsCard>
+            <span class="text-sm themed-muted-text">Ajastimet</span>
+
+            {timers.map((timer) => (
+                <NamedTimerRow
+                    key={timer.id}
+                    timer={timer}
+                    currentTime={currentTime.value}
+                />
+            ))}
+
+            <div class="flex flex-wrap gap-2">
+                <button
+                    type="button"
+                    onClick={() => addTimer(`Ajastin ${timers.length + 1}`, 10)}
+                    class="themed-secondary-button px-3 py-1 text-xs rounded-full border border-[var(--border-subtle)] transition-colors"
+                >
+                    ➕ Lisää ajastin
+                </button>
+                {timerSuggestions.map((s) => (
+                    <button
+                        type="button"
+                        onClick={() => addTimer(s.name, s.minutes)}
+                        class="themed-secondary-button px-3 py-1 text-xs rounded-full border border-[var(--border-subtle)] transition-colors"
+                    >
+                        {s.name} {s.minutes} min
+                    </button>
+                ))}
+            </div>
+        </SettingsCard>
+    );
+}
+
+// Banner for each finished timer, shown on top of the clock
+export function NamedTimerAlerts() {
+    const timers = ringingTimers.value;
+    if (timers.length === 0) {
+        return null;
+    }
+
+    return (
+        <div
+            class="fixed top-4 inset-x-4 flex flex-col items-center gap-2"
+            style={{
+                // Below the alarm overlay so its stop buttons stay reachable
+                zIndex: 1500,
+            }}
+        >
+            {timers.map((timer) => (
+                <div class="w-full max-w-md flex items-center gap-3 bg-red-500 text-white rounded-2xl px-5 py-3 shadow-lg">
+                    <span class="flex-1 text-lg font-bold">
+                        ⏰ {timer.name} valmis!
+                    </span>
+                    <button
+                        type="button"
+                        onClick={() => acknowledgeTimer(timer.id)}
+                        class="px-4 py-2 rounded-lg bg-white text-gray-900 font-bold"
+                    >
+                        Kuittaa
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
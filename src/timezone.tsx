@@ -0,0 +1,454 @@
+import { Signal } from "@preact/signals";
+import { SettingsCard, SettingsRow } from "./SettingsCard";
+import { urlSignal } from "./utils";
+import { arrayCodec, isRecord, jsonCodec, nullableCodec } from "./codec";
+
+// Time zones are handled by converting instants to "wall clock" Dates whose
+// local getters (getHours() etc.) return the time in the wanted zone. This
+// lets the existing angle and alarm code keep using the local getters. A null
+// zone means the device's own zone.
+
+export interface WorldClock {
+    id: string;
+    timeZone: string;
+    label: string;
+    style: "analog" | "digital";
+}
+
+const commonTimeZones = [
+    "UTC",
+    "Europe/Helsinki",
+    "Europe/Stockholm",
+    "Europe/London",
+    "Europe/Berlin",
+    "Europe/Madrid",
+    "America/New_York",
+    "America/Chicago",
+    "America/Denver",
+    "America/Los_Angeles",
+    "America/Sao_Paulo",
+    "Asia/Dubai",
+    "Asia/Kolkata",
+    "Asia/Bangkok",
+    "Asia/Shanghai",
+    "Asia/Tokyo",
+    "Australia/Sydney",
+    "Pacific/Auckland",
+];
+
+export const availableTimeZones: string[] = (() => {
+    const intl = Intl as typeof Intl & {
+        supportedValuesOf?: (key: "timeZone") => string[];
+    };
+    return intl.supportedValuesOf?.("timeZone") ?? commonTimeZones;
+})();
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string) {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric",
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+function getZonedParts(date: Date, timeZone: string) {
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        if (part.type !== "literal") {
+            parts[part.type] = Number(part.value);
+        }
+    }
+    return {
+        year: parts.year ?? 1970,
+        month: (parts.month ?? 1) - 1,
+        day: parts.day ?? 1,
+        hours: parts.hour ?? 0,
+        minutes: parts.minute ?? 0,
+        seconds: parts.second ?? 0,
+    };
+}
+
+export function isValidTimeZone(timeZone: string) {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Wall clock time of the instant in the given zone
+export function toZonedTime(date: Date, timeZone: string | null): Date {
+    if (timeZone === null || !isValidTimeZone(timeZone)) {
+        return date;
+    }
+    const p = getZonedParts(date, timeZone);
+    return new Date(
+        p.year,
+        p.month,
+        p.day,
+        p.hours,
+        p.minutes,
+        p.seconds,
+        date.getMilliseconds(),
+    );
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function getZoneOffset(instant: number, timeZone: string) {
+    const p = getZonedParts(new Date(instant), timeZone);
+    const asUtc = Date.UTC(
+        p.year,
+        p.month,
+        p.day,
+        p.hours,
+        p.minutes,
+        p.seconds,
+    );
+    return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// Instant of the given minute of a calendar date in the zone. Unlike a wall
+// clock Date this also works for times that fall into a DST gap of the
+// device's own zone but exist in the given one. The offset is checked twice
+// so that times next to a DST change land on the right side of it.
+export function zonedDateTime(
+    year: number,
+    month: number,
+    day: number,
+    hours: number,
+    minutes: number,
+    timeZone: string | null,
+): Date {
+    if (timeZone === null || !isValidTimeZone(timeZone)) {
+        return new Date(year, month, day, hours, minutes);
+    }
+    const asUtc = Date.UTC(year, month, day, hours, minutes);
+    const guess = asUtc - getZoneOffset(asUtc, timeZone);
+    return new Date(asUtc - getZoneOffset(guess, timeZone));
+}
+
+// Calendar date of the instant in the zone
+export function getZonedDate(date: Date, timeZone: string | null) {
+    if (timeZone === null || !isValidTimeZone(timeZone)) {
+        return {
+            year: date.getFullYear(),
+            month: date.getMonth(),
+            day: date.getDate(),
+        };
+    }
+    const { year, month, day } = getZonedParts(date, timeZone);
+    return { year, month, day };
+}
+
+// "America/New_York" -> "New York"
+export function getCityName(timeZone: string) {
+    return (timeZone.split("/").pop() ?? timeZone).replace(/_/g, " ");
+}
+
+export function formatTimeZone(timeZone: string | null) {
+    return timeZone === null ? "Laitteen aika" : getCityName(timeZone);
+}
+
+export const timeZoneCodec = jsonCodec((value) =>
+    typeof value === "string" && isValidTimeZone(value) ? value : undefined,
+);
+
+function validateWorldClock(saved: unknown): WorldClock | undefined {
+    if (!isRecord(saved) || typeof saved.id !== "string") return undefined;
+    const timeZone = timeZoneCodec.validate(saved.timeZone);
+    if (timeZone === undefined) return undefined;
+    return {
+        id: saved.id,
+        timeZone,
+        label:
+            typeof saved.label === "string"
+                ? saved.label
+                : getCityName(timeZone),
+        style: saved.style === "analog" ? "analog" : "digital",
+    };
+}
+
+// Zone shown on the main face, null follows the device
+export const displayTimeZone = urlSignal<string | null>(
+    "timeZone",
+    null,
+    nullableCodec(timeZoneCodec),
+);
+export const worldClocks = urlSignal<WorldClock[]>(
+    "worldClocks",
+    [],
+    arrayCodec(validateWorldClock),
+);
+
+interface TimeZoneSelectProps {
+    value: string | null;
+    onChange: (timeZone: string | null) => void;
+    class?: string;
+}
+
+export function TimeZoneSelect({
+    value,
+    onChange,
+    class: cls = "themed-field w-40 pl-2 pr-6 py-1 text-xs rounded",
+}: TimeZoneSelectProps) {
+    return (
+        <select
+            value={value ?? ""}
+            onInput={(e) =>
+                onChange((e.target as HTMLSelectElement).value || null)
+            }
+            class={cls}
+        >
+            <option value="">Laitteen aika</option>
+            {availableTimeZones.map((zone) => (
+                <option value={zone}>{zone.replace(/_/g, " ")}</option>
+            ))}
+        </select>
+    );
+}
+
+function pad(value: number) {
+    return value.toString().padStart(2, "0");
+}
+
+interface WorldClockProps {
+    clock: WorldClock;
+    currentTime: Date;
+}
+
+function MiniAnalogClock({ time }: { time: Date }) {
+    const minutesAngle = time.getMinutes() * 6;
+    const hoursAngle = ((time.getHours() % 12) + time.getMinutes() / 60) * 30;
+
+    return (
+        <svg viewBox="0 0 40 40" class="w-12 h-12">
+            <circle
+                cx="20"
+                cy="20"
+                r="18"
+                fill="var(--clock-face)"
+                stroke="var(--clock-ring)"
+                stroke-width="1.5"
+            />
+            {Array.from({ length: 12 }, (_, i) => (
+                <line
+                    x1="20"
+                    y1="4"
+                    x2="20"
+                    y2="6"
+                    stroke="var(--clock-hour-marker)"
+                    stroke-width="1"
+                    transform={`rotate(${i * 30} 20 20)`}
+                />
+            ))}
+            <line
+                x1="20"
+                y1="20"
+                x2="20"
+                y2="11"
+                stroke="var(--clock-hour-hand)"
+                stroke-width="2"
+                stroke-linecap="round"
+                transform={`rotate(${hoursAngle} 20 20)`}
+            />
+            <line
+                x1="20"
+                y1="20"
+                x2="20"
+                y2="6"
+                stroke="var(--clock-minute-hand)"
+                stroke-width="1.2"
+                stroke-linecap="round"
+                transform={`rotate(${minutesAngle} 20 20)`}
+            />
+        </svg>
+    );
+}
+
+function WorldClockView({ clock, currentTime }: WorldClockProps) {
+    const time = toZonedTime(currentTime, clock.timeZone);
+    const local = toZonedTime(currentTime, displayTimeZone.value);
+
+    // Day difference to the main face, e.g. "+1" in Tokyo
+    const dayDiff = Math.round(
+        (new Date(
+            time.getFullYear(),
+            time.getMonth(),
+            time.getDate(),
+        ).getTime() -
+            new Date(
+                local.getFullYear(),
+                local.getMonth(),
+                local.getDate(),
+            ).getTime()) /
+            86400000,
+    );
+
+    return (
+        <div class="bg-black bg-opacity-50 text-white rounded-lg px-2 py-1 flex flex-col items-center text-xs">
+            {clock.style === "analog" ? (
+                <MiniAnalogClock time={time} />
+            ) : (
+                <span class="font-mono text-lg font-bold">
+                    {pad(time.getHours())}:{pad(time.getMinutes())}
+                </span>
+            )}
+            <span>
+                {clock.label}
+                {dayDiff !== 0 && (
+                    <span class="opacity-70">
+                        {" "}
+                        {dayDiff > 0 ? `+${dayDiff}` : dayDiff}
+                    </span>
+                )}
+            </span>
+        </div>
+    );
+}
+
+interface WorldClocksProps {
+    currentTime: Signal<Date>;
+}
+
+// Small clocks for other zones along the bottom of the clock view
+export function WorldClocks({ currentTime }: WorldClocksProps) {
+    if (worldClocks.value.length === 0) {
+        return null;
+    }
+
+    return (
+        <div
+            class="absolute bottom-4 inset-x-4 flex flex-wrap justify-center gap-2 pointer-events-none"
+            style={{ zIndex: 1000 }}
+        >
+            {worldClocks.value.map((clock) => (
+                <WorldClockView
+                    key={clock.id}
+                    clock={clock}
+                    currentTime={currentTime.value}
+                />
+            ))}
+        </div>
+    );
+}
+
+function updateWorldClock(id: string, patch: Partial<WorldClock>) {
+    worldClocks.value = worldClocks.value.map((c) =>
+        c.id === id ? { ...c, ...patch } : c,
+    );
+}
+
+function addWorldClock() {
+    const timeZone = "UTC";
+    worldClocks.value = [
+        ...worldClocks.value,
+        {
+            id: Math.random().toString(36).substring(2, 10),
+            timeZone,
+            label: getCityName(timeZone),
+            style: "digital",
+        },
+    ];
+}
+
+function removeWorldClock(id: string) {
+    worldClocks.value = worldClocks.value.filter((c) => c.id !== id);
+}
+
+const localZoneName = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export function TimeZoneSettings() {
+    return (
+        <SettingsCard>
+            <SettingsRow label="Kellon aikavyöhyke">
+                <TimeZoneSelect
+                    value={displayTimeZone.value}
+                    onChange={(zone) => (displayTimeZone.value = zone)}
+                />
+            </SettingsRow>
+            {displayTimeZone.value === null && (
+                <p class="text-xs themed-subtle-text italic">
+                    Laitteen aikavyöhyke: {localZoneName}
+                </p>
+            )}
+
+            {worldClocks.value.map((clock) => (
+                <div class="flex items-center gap-2 pt-2 border-t border-[var(--border-subtle)]">
+                    <input
+                        type="text"
+                        value={clock.label}
+                        onChange={(e) =>
+                            updateWorldClock(clock.id, {
+                                label: (e.target as HTMLInputElement).value,
+                            })
+                        }
+                        class="themed-field w-24 min-w-0 px-2 py-1 rounded text-xs"
+                    />
+                    <select
+                        value={clock.timeZone}
+                        onInput={(e) => {
+                            const timeZone = (e.target as HTMLSelectElement)
+                                .value;
+                            updateWorldClock(clock.id, {
+                                timeZone,
+                                // Follow the zone unless renamed by the user
+                                label:
+                                    clock.label === getCityName(clock.timeZone)
+                                        ? getCityName(timeZone)
+                                        : clock.label,
+                            });
+                        }}
+                        class="themed-field flex-1 min-w-0 pl-2 pr-6 py-1 text-xs rounded"
+                    >
+                        {availableTimeZones.map((zone) => (
+                            <option value={zone}>
+                                {zone.replace(/_/g, " ")}
+                            </option>
+                        ))}
+                    </select>
+                    <select
+                        value={clock.style}
+                        onInput={(e) =>
+                            updateWorldClock(clock.id, {
+                                style: (e.target as HTMLSelectElement)
+                                    .value as WorldClock["style"],
+                            })
+                        }
+                        class="themed-field w-20 pl-2 pr-6 py-1 text-xs rounded"
+                    >
+                        <option value="digital">12:34</option>
+                        <option value="analog">🕑</option>
+                    </select>
+                    <button
+                        type="button"
+                        onClick={() => removeWorldClock(clock.id)}
+                        class="themed-secondary-button px-2 py-1 text-sm rounded transition-colors"
+                    >
+                        🗑️
+                    </button>
+                </div>
+            ))}
+
+            <button
+                type="button"
+                onClick={addWorldClock}
+                class="themed-secondary-button self-start px-3 py-1 text-xs rounded-full border border-[var(--border-subtle)] transition-colors"
+            >
+                ➕ Lisää maailmankello
+            </button>
+        </SettingsCard>
+    );
+}
@@ -1,21 +1,107 @@
 import { signal, effect, type Signal } from "@preact/signals";
+import { useEffect, useRef } from "preact/hooks";
+import { Codec } from "./codec";
+import { migrateParams, URL_SCHEMA_VERSION, VERSION_PARAM } from "./migrations";
+import { displayMode } from "./pwa";
 
-export function urlSignal<T>(key: string, initialValue: T): Signal<T> {
-    const params = new URLSearchParams(window.location.search);
-    const saved = params.get(key);
+// Stored without the value type, so anything written to the signal must
+// first pass validate
+interface RegisteredSetting {
+    signal: Signal<unknown>;
+    initialValue: unknown;
+    // The setting's value, undefined when the value is not valid for it
+    validate(value: unknown): unknown;
+}
+
+// Signals that make up the exported settings and profiles by key
+export const settingsRegistry = new Map<string, RegisteredSetting>();
+
+// Include a signal in settings export and profiles. The codec checks
+// imported values.
+function registerSetting<T>(
+    key: string,
+    sig: Signal<T>,
+    initialValue: T,
+    codec: Codec<T>,
+) {
+    settingsRegistry.set(key, {
+        signal: sig,
+        initialValue,
+        validate: codec.validate,
+    });
+}
+
+// The installed app is launched from the manifest's bare start_url, so the
+// settings of the last visit are kept here to start it with
+const LAST_QUERY_KEY = "lastQuery";
 
-    let value: T;
+// Pages like ?debug=history are left out, the app would start on them again
+// and there would be no way back to the clock
+const START_IGNORED_PARAMS = ["debug"];
+
+function getStartQuery() {
+    const saved = window.localStorage.getItem(LAST_QUERY_KEY);
+    if (!window.location.search && saved && displayMode.value !== "browser") {
+        const params = new URLSearchParams(saved);
+        for (const key of START_IGNORED_PARAMS) {
+            params.delete(key);
+        }
+        if (params.toString()) {
+            return `?${params.toString()}`;
+        }
+    }
+    return window.location.search;
+}
+
+// Only the settings are kept, the registry is complete by the time the URL
+// is first written
+function saveLastQuery(params: URLSearchParams) {
+    const settings = new URLSearchParams();
+    for (const [key, value] of params) {
+        if (key === VERSION_PARAM || settingsRegistry.has(key)) {
+            settings.set(key, value);
+        }
+    }
+    window.localStorage.setItem(LAST_QUERY_KEY, settings.toString());
+}
+
+let migrated = false;
+
+// URL parameters upgraded to the current schema on first use
+function readParams() {
+    if (!migrated) {
+        migrated = true;
+        const query = getStartQuery();
+        const params = new URLSearchParams(query);
+        if (migrateParams(params) || query !== window.location.search) {
+            // The hash carries a notification action to the page, see
+            // handlePendingAlarmAction
+            const newUrl = `${window.location.pathname}?${params.toString()}${window.location.hash}`;
+            window.history.replaceState({}, "", newUrl);
+        }
+    }
+    return new URLSearchParams(window.location.search);
+}
+
+export function urlSignal<T>(
+    key: string,
+    initialValue: T,
+    codec: Codec<T>,
+): Signal<T> {
+    const saved = readParams().get(key);
+
+    let value = initialValue;
     if (saved !== null) {
-        try {
-            value = JSON.parse(saved) as T;
-        } catch {
-            value = initialValue;
+        const parsed = codec.parse(saved);
+        if (parsed === undefined) {
+            console.warn("Ignoring invalid URL parameter:", key, saved);
+        } else {
+            value = parsed;
         }
-    } else {
-        value = initialValue;
     }
 
     const sig = signal<T>(value);
+    registerSetting(key, sig, initialValue, codec);
     let timeoutId: ReturnType<typeof setTimeout> | null = null;
 
     effect(() => {
@@ -30,12 +116,170 @@ export function urlSignal<T>(key: string, initialValue: T): Signal<T> {
             if (sig.value === initialValue) {
                 params.delete(key);
             } else {
-                params.set(key, JSON.stringify(sig.value));
+                params.set(key, codec.stringify(sig.value));
+            }
+            // Tag the link so that later versions know how to read it
+            if ([...params.keys()].some((k) => k !== VERSION_PARAM)) {
+                params.set(VERSION_PARAM, String(URL_SCHEMA_VERSION));
+            } else {
+                params.delete(VERSION_PARAM);
             }
-            const newUrl = `${window.location.pathname}?${params.toString()}`;
+            const newUrl = `${window.location.pathname}?${params.toString()}${window.location.hash}`;
             window.history.replaceState({}, "", newUrl);
+            saveLastQuery(params);
         }, 100);
     });
 
     return sig;
 }
+
+// Device setting kept in localStorage instead of the URL. Also part of the
+// exported settings and profiles.
+export function storageSignal<T>(
+    key: string,
+    initialValue: T,
+    codec: Codec<T>,
+): Signal<T> {
+    const saved = window.localStorage.getItem(key);
+    const sig = signal<T>(
+        saved !== null ? (codec.parse(saved) ?? initialValue) : initialValue,
+    );
+    registerSetting(key, sig, initialValue, codec);
+
+    effect(() => {
+        window.localStorage.setItem(key, codec.stringify(sig.value));
+    });
+
+    return sig;
+}
+
+// "HH:MM" to minutes of the day
+export function parseTimeOfDay(value: string): number | null {
+    const [hours, minutes] = value.split(":").map(Number);
+    if (hours === undefined || minutes === undefined) return null;
+    if (isNaN(hours) || isNaN(minutes)) return null;
+    return hours * 60 + minutes;
+}
+
+// Minutes of the day to "HH:MM", wrapping over midnight
+export function formatTimeOfDay(minute: number) {
+    const day = 24 * 60;
+    const wrapped = ((minute % day) + day) % day;
+    const hours = Math.floor(wrapped / 60)
+        .toString()
+        .padStart(2, "0");
+    const minutes = (wrapped % 60).toString().padStart(2, "0");
+    return `${hours}:${minutes}`;
+}
+
+// Angle of a pointer position around the clock face center in degrees
+// (0 = top, clockwise)
+export function getClockAngle(
+    svg: SVGSVGElement | null,
+    clientX: number,
+    clientY: number,
+): number | null {
+    if (!svg) return null;
+
+    const rect = svg.getBoundingClientRect();
+    const centerX = rect.left + rect.width / 2;
+    const centerY = rect.top + rect.height / 2;
+
+    const dx = clientX - centerX;
+    const dy = clientY - centerY;
+
+    let angle = Math.atan2(dx, -dy) * (180 / Math.PI);
+    if (angle < 0) angle += 360;
+
+    return angle;
+}
+
+// Point on the clock face at the given angle (0 = top, clockwise)
+export function polarToClock(radius: number, angle: number) {
+    const radians = ((angle - 90) * Math.PI) / 180;
+    return {
+        x: 50 + radius * Math.cos(radians),
+        y: 50 + radius * Math.sin(radians),
+    };
+}
+
+// SVG path for a pie slice of the clock face from startAngle clockwise to
+// endAngle
+export function describeSector(
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+) {
+    const sweep = endAngle - startAngle;
+    if (sweep >= 359.99) {
+        // A full circle can't be drawn with a single arc
+        return (
+            `M 50 ${50 - radius} ` +
+            `A ${radius} ${radius} 0 1 1 50 ${50 + radius} ` +
+            `A ${radius} ${radius} 0 1 1 50 ${50 - radius} Z`
+        );
+    }
+
+    const start = polarToClock(radius, startAngle);
+    const end = polarToClock(radius, endAngle);
+    const largeArc = sweep > 180 ? 1 : 0;
+    return (
+        `M 50 50 L ${start.x} ${start.y} ` +
+        `A ${radius} ${radius} 0 ${largeArc} 1 ${end.x} ${end.y} Z`
+    );
+}
+
+// SVG path for an arc along the clock face from startAngle clockwise to
+// endAngle
+export function describeArc(
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+) {
+    const sweep = Math.min(endAngle - startAngle, 359.99);
+    const start = polarToClock(radius, startAngle);
+    const end = polarToClock(radius, startAngle + sweep);
+    const largeArc = sweep > 180 ? 1 : 0;
+    return (
+        `M ${start.x} ${start.y} ` +
+        `A ${radius} ${radius} 0 ${largeArc} 1 ${end.x} ${end.y}`
+    );
+}
+
+// Follow mouse and touch movement on the whole document while dragging
+export function useDocumentDrag(
+    onMove: (clientX: number, clientY: number) => void,
+    onEnd: () => void,
+) {
+    const handlers = useRef({ onMove, onEnd });
+    handlers.current = { onMove, onEnd };
+
+    useEffect(() => {
+        const handleMouseMove = (e: MouseEvent) => {
+            handlers.current.onMove(e.clientX, e.clientY);
+        };
+
+        const handleTouchMove = (e: TouchEvent) => {
+            const touch = e.touches[0];
+            if (touch) {
+                handlers.current.onMove(touch.clientX, touch.clientY);
+            }
+        };
+
+        const handleEnd = () => {
+            handlers.current.onEnd();
+        };
+
+        document.addEventListener("mousemove", handleMouseMove);
+        document.addEventListener("mouseup", handleEnd);
+        document.addEventListener("touchmove", handleTouchMove);
+        document.addEventListener("touchend", handleEnd);
+
+        return () => {
+            document.removeEventListener("mousemove", handleMouseMove);
+            document.removeEventListener("mouseup", handleEnd);
+            document.removeEventListener("touchmove", handleTouchMove);
+            document.removeEventListener("touchend", handleEnd);
+        };
+    }, []);
+}
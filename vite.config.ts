@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import preact from "@preact/preset-vite";
 import tailwindcss from "@tailwindcss/vite";
@@ -5,4 +6,12 @@ import tailwindcss from "@tailwindcss/vite";
 // https://vitejs.dev/config/
 export default defineConfig({
     plugins: [preact(), tailwindcss()],
+    test: {
+        environment: "jsdom",
+        setupFiles: ["src/test-setup.ts"],
+        // Tests that import the alarm module load most of the app
+        testTimeout: 20000,
+        // Fixed zone with DST so that clock tests behave the same everywhere
+        env: { TZ: "Europe/Helsinki" },
+    },
 });